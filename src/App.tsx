@@ -1,21 +1,16 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { ethers } from "ethers";
 import "./App.css";
-import InfoContractABI from "../InfoContract.json";
 import { NativeTransfer } from "./components/NativeTransfer";
 import { ContractCall } from "./components/ContractCall";
+import { ActivityFeed } from "./components/ActivityFeed";
+import { Portfolio } from "./components/Portfolio";
+import { ContractWorkspace } from "./components/ContractWorkspace";
 import { USDTTransfer } from "./components/USDTTransfer";
+import { NonceQueuePanel } from "./components/NonceQueuePanel";
 import { useNotification } from "./hooks/useNotification";
-
-interface Transaction {
-  hash: string;
-  from: string;
-  to: string;
-  value: string;
-  data: string;
-  timestamp: number;
-  source?: "blockchain" | "local";
-}
+import { useContractRegistry, resolveContractAddress } from "./hooks/useContractRegistry";
+import { useHistoryReconciler } from "./hooks/useHistoryReconciler";
 
 interface Network {
   name: string;
@@ -44,12 +39,27 @@ function App() {
     symbol: "ETH",
     decimals: 18,
   });
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [balance, setBalance] = useState<string>("0");
-  const [contractAddress] = useState<string>(
-    import.meta.env.VITE_CONTRACT_ADDRESS || "0x843F2a4Dce76F8adC235f4D8B1775338f8318CA7"
+  const {
+    contracts,
+    selectedContract,
+    selectContract,
+    addContract,
+    setContractAddress,
+    removeContract,
+  } = useContractRegistry();
+  const contractAddress = resolveContractAddress(selectedContract, network.chainId);
+  const [activeTab, setActiveTab] = useState<0 | 1 | 2 | 3 | 4 | 5>(0);
+  // 资产总览查询所有已连接的账户；账户列表还没加载完时至少包含当前账户
+  // 切换网络时账户列表会带着新余额重新生成，按地址比较避免资产总览重复查询
+  const accountAddresses = allAccounts.map((walletAccount) => walletAccount.address).join(",");
+  const portfolioAccounts = useMemo(
+    () => (accountAddresses ? accountAddresses.split(",") : account ? [account] : []),
+    [accountAddresses, account]
   );
-  const [activeTab, setActiveTab] = useState<0 | 1 | 2>(0);
+
+  // 启动时和每个新区块核对未定状态的交易记录
+  useHistoryReconciler(provider, network.chainId);
 
   const networks = useMemo(() => [
     {
@@ -209,15 +219,7 @@ function App() {
     }
   }, [networks]);
 
-  const loadTransactions = () => {
-    const saved = localStorage.getItem("datachain_transactions");
-    if (saved) {
-      setTransactions(JSON.parse(saved));
-    }
-  };
-
   useEffect(() => {
-    loadTransactions();
     checkWalletConnection();
   }, [checkWalletConnection]);
 
@@ -499,27 +501,53 @@ function App() {
             >
               代币转账
             </button>
+            <button 
+              className={`tab ${activeTab === 3 ? 'active' : ''}`}
+              onClick={() => setActiveTab(3)}
+            >
+              合约管理
+            </button>
+            <button 
+              className={`tab ${activeTab === 4 ? 'active' : ''}`}
+              onClick={() => setActiveTab(4)}
+            >
+              全部活动
+            </button>
+            <button 
+              className={`tab ${activeTab === 5 ? 'active' : ''}`}
+              onClick={() => setActiveTab(5)}
+            >
+              资产总览
+            </button>
           </div>
           
           <div className="form-content">
+            {account && (
+              <NonceQueuePanel provider={provider} account={account} chainId={network.chainId} />
+            )}
             {activeTab === 0 && (
               <NativeTransfer
                 account={account}
                 provider={provider}
                 signer={signer}
                 network={network}
-                transactions={transactions}
-                onTransactionUpdate={setTransactions}
+                networks={networks}
                 onBalanceUpdate={updateBalance}
               />
             )}
             {activeTab === 1 && (
               <ContractCall
+                key={selectedContract.id}
                 account={account}
                 provider={provider}
                 signer={signer}
+                network={network}
+                networks={networks}
                 contractAddress={contractAddress}
-                contractABI={InfoContractABI.abi}
+                contractABI={selectedContract.abi}
+                contracts={contracts}
+                selectedContractId={selectedContract.id}
+                onSelectContract={selectContract}
               />
             )}
             {activeTab === 2 && (
@@ -528,9 +556,31 @@ function App() {
                 provider={provider}
                 signer={signer}
                 network={network}
+                networks={networks}
                 onBalanceUpdate={updateBalance}
               />
             )}
+            {activeTab === 3 && (
+              <ContractWorkspace
+                account={account}
+                provider={provider}
+                signer={signer}
+                network={network}
+                networks={networks}
+                contracts={contracts}
+                selectedContract={selectedContract}
+                onAddContract={addContract}
+                onSetAddress={setContractAddress}
+                onRemoveContract={removeContract}
+                onSelectContract={selectContract}
+              />
+            )}
+            {activeTab === 4 && (
+              <ActivityFeed account={account} network={network} networks={networks} />
+            )}
+            {activeTab === 5 && (
+              <Portfolio accounts={portfolioAccounts} currentAccount={account} networks={networks} />
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { AbiInputField } from './AbiInputField'
+import {
+  createDefaultValue,
+  parseAbiArgs,
+  type AbiInputValue,
+  type DecodedOutput
+} from '../utils/abi'
+
+interface AbiFunctionFormProps {
+  fragment: ethers.FunctionFragment
+  disabled?: boolean
+  // 返回 null 表示执行失败（错误已由调用方提示）
+  onSubmit: (args: unknown[], value?: bigint) => Promise<DecodedOutput[] | null>
+}
+
+// 单个合约函数的表单：参数输入、执行按钮和解码后的返回值
+export function AbiFunctionForm({ fragment, disabled, onSubmit }: AbiFunctionFormProps) {
+  const [values, setValues] = useState<AbiInputValue[]>(() => fragment.inputs.map(createDefaultValue))
+  const [payableValue, setPayableValue] = useState<string>('')
+  const [inputError, setInputError] = useState<string>('')
+  const [outputs, setOutputs] = useState<DecodedOutput[] | null>(null)
+  const [isRunning, setIsRunning] = useState<boolean>(false)
+
+  const isRead = fragment.constant
+
+  const handleSubmit = async () => {
+    let args: unknown[]
+    let value: bigint | undefined
+    try {
+      args = parseAbiArgs(fragment.inputs, values)
+      if (fragment.payable && payableValue.trim()) {
+        value = ethers.parseEther(payableValue.trim())
+      }
+      setInputError('')
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : '参数格式错误')
+      return
+    }
+
+    try {
+      setIsRunning(true)
+      const result = await onSubmit(args, value)
+      if (isRead) {
+        setOutputs(result)
+      } else if (result) {
+        setValues(fragment.inputs.map(createDefaultValue))
+        setPayableValue('')
+      }
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <div className="record-item" style={{ borderColor: 'rgba(102, 126, 234, 0.15)' }}>
+      <div className="record-header" style={{ marginBottom: fragment.inputs.length ? '15px' : 0 }}>
+        <code style={{ fontFamily: "'Courier New', monospace", fontWeight: 600, color: '#667eea' }}>
+          {fragment.format('sighash')}
+        </code>
+        <span className="timestamp">{fragment.stateMutability}</span>
+      </div>
+
+      {fragment.inputs.map((param, index) => (
+        <AbiInputField
+          key={index}
+          param={param}
+          value={values[index]}
+          onChange={(next) =>
+            setValues((prev) => prev.map((item, i) => (i === index ? next : item)))
+          }
+        />
+      ))}
+
+      {fragment.payable && (
+        <div className="form-row" style={{ marginBottom: '12px' }}>
+          <input
+            type="text"
+            className="form-input"
+            placeholder="附带金额 (ETH, 可选)"
+            value={payableValue}
+            onChange={(e) => setPayableValue(e.target.value)}
+          />
+        </div>
+      )}
+
+      {inputError && (
+        <div style={{ color: '#f56565', fontSize: '13px', marginBottom: '12px' }}>
+          ⚠️ {inputError}
+        </div>
+      )}
+
+      <button
+        className={isRead ? 'query-btn' : 'submit-btn'}
+        onClick={handleSubmit}
+        disabled={disabled || isRunning}
+        style={{ width: '100%', marginTop: '12px' }}
+      >
+        {isRunning ? (isRead ? '查询中...' : '调用中...') : isRead ? '查询' : '调用合约'}
+      </button>
+
+      {outputs && (
+        <div className="record-details" style={{ marginTop: '12px' }}>
+          {outputs.length === 0 ? (
+            <p>无返回值</p>
+          ) : (
+            outputs.map((output, index) => (
+              <p key={index}>
+                <strong>{output.name} ({output.type}):</strong>{' '}
+                <span style={{ wordBreak: 'break-all' }}>{output.value}</span>
+              </p>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
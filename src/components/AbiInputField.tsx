@@ -0,0 +1,147 @@
+import { ethers } from 'ethers'
+import { createDefaultValue, type AbiInputValue } from '../utils/abi'
+
+interface AbiInputFieldProps {
+  param: ethers.ParamType
+  value: AbiInputValue
+  onChange: (value: AbiInputValue) => void
+  label?: string
+}
+
+const groupStyle = {
+  border: '1px dashed rgba(102, 126, 234, 0.3)',
+  borderRadius: '8px',
+  padding: '12px',
+  marginBottom: '12px'
+}
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '8px',
+  color: '#4a5568',
+  fontSize: '13px',
+  fontWeight: 600
+}
+
+const smallBtnStyle = {
+  padding: '4px 10px',
+  fontSize: '12px',
+  borderRadius: '6px',
+  border: '1px solid rgba(102, 126, 234, 0.3)',
+  background: 'rgba(255, 255, 255, 0.8)',
+  color: '#4a5568',
+  cursor: 'pointer'
+}
+
+const getPlaceholder = (param: ethers.ParamType) => {
+  if (param.type === 'address') return '0x...'
+  if (/^uint\d*$/.test(param.type)) return '非负整数 (支持0x十六进制)'
+  if (/^int\d*$/.test(param.type)) return '整数 (支持负数和0x十六进制)'
+  if (param.type === 'bytes') return '0x十六进制数据'
+  if (param.type.startsWith('bytes')) return `0x + ${parseInt(param.type.slice(5)) * 2}位十六进制`
+  return param.type
+}
+
+// 根据ABI参数类型递归渲染输入控件
+export function AbiInputField({ param, value, onChange, label }: AbiInputFieldProps) {
+  const title = label ?? (param.name ? `${param.name} (${param.type})` : param.type)
+
+  if (param.isTuple()) {
+    const items = Array.isArray(value) ? value : []
+    return (
+      <div style={groupStyle}>
+        <span style={labelStyle}>{title}</span>
+        {param.components.map((component, index) => (
+          <AbiInputField
+            key={index}
+            param={component}
+            value={items[index] ?? createDefaultValue(component)}
+            onChange={(next) => {
+              const updated = [...items]
+              updated[index] = next
+              onChange(updated)
+            }}
+          />
+        ))}
+      </div>
+    )
+  }
+
+  if (param.isArray()) {
+    const items = Array.isArray(value) ? value : []
+    const isDynamic = param.arrayLength < 0
+    return (
+      <div style={groupStyle}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span style={labelStyle}>{title}</span>
+          {isDynamic && (
+            <button
+              type="button"
+              style={smallBtnStyle}
+              onClick={() => onChange([...items, createDefaultValue(param.arrayChildren)])}
+            >
+              + 添加元素
+            </button>
+          )}
+        </div>
+        {items.length === 0 && (
+          <div style={{ fontSize: '12px', color: '#a0aec0' }}>空数组</div>
+        )}
+        {items.map((item, index) => (
+          <div key={index} style={{ display: 'flex', gap: '8px', alignItems: 'flex-start' }}>
+            <div style={{ flex: 1 }}>
+              <AbiInputField
+                param={param.arrayChildren}
+                value={item}
+                label={`[${index}] ${param.arrayChildren.type}`}
+                onChange={(next) => {
+                  const updated = [...items]
+                  updated[index] = next
+                  onChange(updated)
+                }}
+              />
+            </div>
+            {isDynamic && (
+              <button
+                type="button"
+                style={smallBtnStyle}
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (param.type === 'bool') {
+    return (
+      <div className="form-row" style={{ marginBottom: '12px' }}>
+        <span style={labelStyle}>{title}</span>
+        <select
+          className="form-input"
+          value={typeof value === 'string' ? value : 'false'}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      </div>
+    )
+  }
+
+  return (
+    <div className="form-row" style={{ marginBottom: '12px' }}>
+      <span style={labelStyle}>{title}</span>
+      <input
+        type="text"
+        className="form-input"
+        placeholder={getPlaceholder(param)}
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react'
+import { ethers } from 'ethers'
+import { useHistory } from '../hooks/useHistory'
+import { HistoryTransferBar } from './HistoryTransferBar'
+import { historyRecordId, NATIVE_TOKEN, recordFee, type HistoryRecord, type HistoryRecordType, type HistoryStatus } from '../utils/historyRepository'
+import { applyActivityFilters, DEFAULT_ACTIVITY_FILTERS, type ActivityFilters, type ActivitySort } from '../utils/activity'
+
+interface Network {
+  name: string
+  chainId: string
+  rpcUrl: string
+  symbol: string
+  decimals: number
+}
+
+interface ActivityFeedProps {
+  account: string
+  network: Network
+  networks: Network[]
+}
+
+const TYPE_LABELS: Record<HistoryRecordType, string> = {
+  native: '💸 原生转账',
+  token: '🪙 代币转账',
+  contract: '📜 合约调用'
+}
+
+const STATUS_LABELS: Record<HistoryStatus, string> = {
+  pending: '⏳ 待确认',
+  confirmed: '✅ 已确认',
+  failed: '❌ 失败',
+  replaced: '🔁 已被替换',
+  cancelled: '🚫 已取消',
+  dropped: '🕳️ 已丢弃'
+}
+
+const SORT_LABELS: Record<ActivitySort, string> = {
+  'time-desc': '时间：最新在前',
+  'time-asc': '时间：最早在前',
+  'amount-desc': '数量：从大到小',
+  'amount-asc': '数量：从小到大'
+}
+
+export function ActivityFeed({ account, network, networks }: ActivityFeedProps) {
+  const [showAllChains, setShowAllChains] = useState<boolean>(false)
+  const [filters, setFilters] = useState<ActivityFilters>(DEFAULT_ACTIVITY_FILTERS)
+  // 按记录 ID 选中，后台核对更新状态后抽屉里显示的是最新数据
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  // 未连接钱包时不显示任何账户的记录
+  const { records, isLoading } = useHistory({
+    account: account || undefined,
+    chainId: showAllChains ? undefined : network.chainId
+  })
+  const visibleRecords = useMemo(() => (account ? records : []), [account, records])
+
+  const { records: filteredRecords, errors } = useMemo(
+    () => applyActivityFilters(visibleRecords, filters),
+    [visibleRecords, filters]
+  )
+
+  const findNetwork = (chainId: string) => networks.find(item => item.chainId === chainId)
+  const getNetworkName = (chainId: string) =>
+    chainId ? findNetwork(chainId)?.name ?? `Chain ${parseInt(chainId, 16)}` : '未知网络'
+  const unitOf = (record: HistoryRecord) =>
+    record.token === NATIVE_TOKEN ? findNetwork(record.chainId)?.symbol ?? network.symbol : record.token
+
+  const updateFilter = <K extends keyof ActivityFilters>(key: K, value: ActivityFilters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }))
+  }
+
+  const hasActiveFilters = filters.type !== 'all' || Boolean(filters.dateFrom || filters.dateTo || filters.minAmount || filters.maxAmount)
+  const selected = visibleRecords.find(record => historyRecordId(record.hash, record.token, record.leg) === selectedId) ?? null
+  const selectedFee = selected ? recordFee(selected) : null
+
+  return (
+    <div className="unified-layout">
+      <div className="records-section">
+        <h2>全部活动</h2>
+
+        <div className="form-row">
+          <label className="toggle-switch">
+            <input
+              type="checkbox"
+              checked={showAllChains}
+              onChange={(e) => setShowAllChains(e.target.checked)}
+            />
+            <span className="toggle-slider"></span>
+            <span className="toggle-label">
+              {showAllChains ? '显示所有网络的活动' : `仅显示 ${network.name} 上的活动`}
+            </span>
+          </label>
+        </div>
+
+        <div className="activity-filters">
+          <select
+            className="form-input"
+            value={filters.type}
+            onChange={(e) => updateFilter('type', e.target.value as ActivityFilters['type'])}
+          >
+            <option value="all">全部类型</option>
+            {(Object.keys(TYPE_LABELS) as HistoryRecordType[]).map(type => (
+              <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <select
+            className="form-input"
+            value={filters.sort}
+            onChange={(e) => updateFilter('sort', e.target.value as ActivitySort)}
+          >
+            {(Object.keys(SORT_LABELS) as ActivitySort[]).map(sort => (
+              <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            className="form-input"
+            title="开始日期"
+            value={filters.dateFrom}
+            onChange={(e) => updateFilter('dateFrom', e.target.value)}
+          />
+          <input
+            type="date"
+            className="form-input"
+            title="结束日期"
+            value={filters.dateTo}
+            onChange={(e) => updateFilter('dateTo', e.target.value)}
+          />
+          <input
+            type="text"
+            className="form-input"
+            placeholder="最小数量"
+            value={filters.minAmount}
+            onChange={(e) => updateFilter('minAmount', e.target.value)}
+          />
+          <input
+            type="text"
+            className="form-input"
+            placeholder="最大数量"
+            value={filters.maxAmount}
+            onChange={(e) => updateFilter('maxAmount', e.target.value)}
+          />
+        </div>
+
+        {errors.length > 0 && (
+          <div style={{ padding: '10px', background: 'rgba(245, 101, 101, 0.1)', borderRadius: '8px', marginBottom: '10px', color: '#c53030' }}>
+            {errors.join('；')}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', fontSize: '13px', color: '#4a5568' }}>
+          <span>共 {filteredRecords.length} 条活动{hasActiveFilters && `（全部 ${visibleRecords.length} 条）`}</span>
+          {hasActiveFilters && (
+            <button className="clear-search-btn" onClick={() => setFilters(DEFAULT_ACTIVITY_FILTERS)}>
+              清除筛选
+            </button>
+          )}
+        </div>
+
+        <HistoryTransferBar records={filteredRecords} networks={networks} fileName="activity" />
+
+        <div className="records-list">
+          {!account ? (
+            <div className="empty-state">
+              <p>请先连接钱包</p>
+              <p>连接后将汇总显示该账户的所有转账和合约调用</p>
+            </div>
+          ) : isLoading ? (
+            <div className="empty-state">
+              <p>🔄 正在读取交易记录...</p>
+            </div>
+          ) : filteredRecords.length === 0 ? (
+            <div className="empty-state">
+              <p>{visibleRecords.length === 0 ? '暂无活动记录' : '没有符合筛选条件的活动'}</p>
+            </div>
+          ) : (
+            filteredRecords.map(record => (
+              <div
+                key={historyRecordId(record.hash, record.token, record.leg)}
+                className="record-item activity-item"
+                onClick={() => setSelectedId(historyRecordId(record.hash, record.token, record.leg))}
+              >
+                <div className="record-header">
+                  <div>
+                    <div className={`activity-type activity-type-${record.type}`}>
+                      {TYPE_LABELS[record.type]} · {getNetworkName(record.chainId)}
+                    </div>
+                    <div className="tx-hash">{record.hash}</div>
+                  </div>
+                  <div className="timestamp">{new Date(record.timestamp).toLocaleString()}</div>
+                </div>
+                <div className="record-details">
+                  <p><strong>数量:</strong> {record.amount} {unitOf(record)}</p>
+                  {record.type === 'contract' && record.data && <p><strong>调用:</strong> {record.data}</p>}
+                  <p><strong>状态:</strong> {STATUS_LABELS[record.status ?? 'confirmed']}</p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {selected && (
+        <div className="activity-drawer-overlay" onClick={() => setSelectedId(null)}>
+          <aside className="activity-drawer" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h3>{TYPE_LABELS[selected.type]}</h3>
+              <button className="close-modal" onClick={() => setSelectedId(null)}>✕</button>
+            </div>
+            <div className="modal-content record-details">
+              <p><strong>交易哈希:</strong> <span className="tx-hash">{selected.hash}</span></p>
+              <p><strong>网络:</strong> {getNetworkName(selected.chainId)}</p>
+              <p><strong>时间:</strong> {new Date(selected.timestamp).toLocaleString()}</p>
+              <p><strong>状态:</strong> {STATUS_LABELS[selected.status ?? 'confirmed']}</p>
+              <p><strong>From:</strong> {selected.from}</p>
+              <p><strong>To:</strong> {selected.to || '（合约创建）'}</p>
+              <p><strong>数量:</strong> {selected.amount} {unitOf(selected)}</p>
+              {selected.decimals !== undefined && <p><strong>精度:</strong> {selected.decimals}</p>}
+              {selected.data && <p><strong>{selected.type === 'contract' ? '调用' : 'Data'}:</strong> {selected.data}</p>}
+              {selected.blockNumber !== undefined && <p><strong>区块:</strong> {selected.blockNumber}</p>}
+              {selected.gasUsed && <p><strong>Gas 用量:</strong> {selected.gasUsed}</p>}
+              {selectedFee !== null && (
+                <p>
+                  <strong>手续费:</strong> {ethers.formatUnits(selectedFee, findNetwork(selected.chainId)?.decimals ?? 18)}{' '}
+                  {findNetwork(selected.chainId)?.symbol ?? network.symbol}
+                </p>
+              )}
+              {selected.replacedBy && <p><strong>替换交易:</strong> {selected.replacedBy}</p>}
+              <p><strong>来源:</strong> {selected.source === 'blockchain' ? '🔗 区块链' : '💾 本地'}</p>
+            </div>
+          </aside>
+        </div>
+      )}
+    </div>
+  )
+}
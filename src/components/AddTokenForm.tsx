@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { useNotification } from '../hooks/useNotification'
+import { readErc20Metadata, type Erc20Metadata } from '../utils/erc20'
+
+interface KnownToken {
+  symbol: string
+  address: string
+}
+
+interface AddTokenFormProps {
+  provider: ethers.Provider | null
+  networkName: string
+  // 当前网络上已有的代币，记录按符号区分，不允许重复
+  knownTokens: KnownToken[]
+  onAdd: (token: Erc20Metadata & { address: string }) => void
+}
+
+export function AddTokenForm({ provider, networkName, knownTokens, onAdd }: AddTokenFormProps) {
+  const { showError, showSuccess } = useNotification()
+  const [address, setAddress] = useState<string>('')
+  const [isReading, setIsReading] = useState<boolean>(false)
+  const [metadata, setMetadata] = useState<(Erc20Metadata & { address: string }) | null>(null)
+
+  const readToken = async () => {
+    if (!provider) {
+      showError('请先连接钱包')
+      return
+    }
+    const trimmed = address.trim()
+    if (knownTokens.some(token => token.address.toLowerCase() === trimmed.toLowerCase())) {
+      showError('该代币已在列表中')
+      return
+    }
+
+    setIsReading(true)
+    setMetadata(null)
+    try {
+      const result = await readErc20Metadata(provider, trimmed)
+      if (knownTokens.some(token => token.symbol === result.symbol)) {
+        showError(`当前网络已有符号为 ${result.symbol} 的代币`)
+        return
+      }
+      setMetadata({ ...result, address: ethers.getAddress(trimmed) })
+    } catch (error) {
+      showError(error instanceof Error ? error.message : '读取代币信息失败')
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const confirmAdd = () => {
+    if (!metadata) return
+    onAdd(metadata)
+    showSuccess(`已添加 ${metadata.symbol} 到 ${networkName}`)
+    setMetadata(null)
+    setAddress('')
+  }
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div className="search-input-group">
+        <input
+          type="text"
+          className="search-input"
+          placeholder="添加代币：输入 ERC-20 合约地址 (0x...)"
+          value={address}
+          onChange={(e) => {
+            setAddress(e.target.value)
+            setMetadata(null)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              readToken()
+            }
+          }}
+        />
+        <button
+          className="search-btn"
+          onClick={readToken}
+          disabled={isReading || !address.trim()}
+          title="读取代币信息"
+        >
+          {isReading ? '⏳' : '➕'}
+        </button>
+      </div>
+
+      {metadata && (
+        <div className="record-details" style={{ marginTop: '10px' }}>
+          <p><strong>名称:</strong> {metadata.name}</p>
+          <p><strong>符号:</strong> {metadata.symbol}</p>
+          <p><strong>精度:</strong> {metadata.decimals}</p>
+          <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+            <button className="search-btn" onClick={confirmAdd} style={{ fontSize: '12px', padding: '8px 12px' }}>
+              ✅ 添加到 {networkName}
+            </button>
+            <button className="clear-search-btn" onClick={() => setMetadata(null)}>
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { ethers } from 'ethers'
+import { approvalKey, formatAllowance, type ApprovalScanCoverage, type TokenApproval } from '../hooks/useTokenApprovals'
+
+interface ApprovalsDashboardProps {
+  approvals: TokenApproval[]
+  isLoading: boolean
+  failedTokens: string[]
+  coverage: ApprovalScanCoverage[]
+  // 正在撤销的授权，格式为 代币地址:spender
+  revokingKey: string
+  onRefresh: () => void
+  onRevoke: (approval: TokenApproval) => void
+}
+
+export function ApprovalsDashboard({ approvals, isLoading, failedTokens, coverage, revokingKey, onRefresh, onRevoke }: ApprovalsDashboardProps) {
+  return (
+    <div className="record-details" style={{ marginTop: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <strong>我的授权</strong>
+        <button
+          className="search-btn"
+          onClick={onRefresh}
+          disabled={isLoading}
+          title="从 Approval 事件中查找授权对象并读取当前额度"
+          style={{ fontSize: '12px', padding: '6px 10px' }}
+        >
+          {isLoading ? '查询中...' : '🔄 刷新'}
+        </button>
+      </div>
+
+      {coverage.map(item => (
+        <p key={item.symbol} className="progress-info" style={{ fontSize: '12px', marginBottom: '4px' }}>
+          <span>{item.symbol}：已扫描区块 #{item.startBlock} → #{Math.max(item.scannedTo, item.startBlock - 1)}</span>
+          {item.scannedTo < item.targetBlock && <span>最新区块 #{item.targetBlock}</span>}
+        </p>
+      ))}
+      {coverage.some(item => item.startBlock > 0) && (
+        <p style={{ color: '#718096', fontSize: '12px' }}>起始区块为代币合约的部署区块，之前不可能有授权</p>
+      )}
+
+      {failedTokens.length > 0 && (
+        <p style={{ color: '#e53e3e', fontSize: '12px' }}>
+          {failedTokens.join(', ')} 的授权事件扫描失败，列表可能不完整
+        </p>
+      )}
+
+      {approvals.length === 0 ? (
+        <p style={{ color: '#718096', fontSize: '13px' }}>
+          {isLoading ? '正在查询授权事件...' : '在已扫描的区块范围内，当前账户没有未撤销的代币授权'}
+        </p>
+      ) : (
+        approvals.map(approval => {
+          const key = approvalKey(approval)
+          return (
+            <div key={key} className="record-item" style={{ marginBottom: '8px' }}>
+              <div className="record-header">
+                <span>
+                  <strong>{approval.symbol}</strong>
+                  {' · '}
+                  {approval.allowance === ethers.MaxUint256 ? (
+                    <span style={{ color: '#e53e3e', fontWeight: 600 }}>无限授权</span>
+                  ) : (
+                    `${formatAllowance(approval.allowance, approval.decimals)} ${approval.symbol}`
+                  )}
+                </span>
+                <button
+                  className="clear-search-btn"
+                  onClick={() => onRevoke(approval)}
+                  disabled={Boolean(revokingKey)}
+                  title="将授权额度设置为 0"
+                  style={{ whiteSpace: 'nowrap' }}
+                >
+                  {revokingKey === key ? '撤销中...' : '撤销'}
+                </button>
+              </div>
+              <div className="tx-hash" style={{ fontSize: '12px' }}>授权对象: {approval.spender}</div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,482 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { TransactionProgress, type TransactionStep } from './TransactionProgress'
+import { FeePanel } from './FeePanel'
+import { useTransactionProgress } from '../hooks/useTransactionProgress'
+import { useNotification } from '../hooks/useNotification'
+import { useFeeSettings } from '../hooks/useFeeSettings'
+import { useBatchPayout, type BatchPayout as Batch, type BatchPayoutRow, type BatchRowStatus } from '../hooks/useBatchPayout'
+import { parseBatchCsv, type BatchRow } from '../utils/batchCsv'
+import { describeTransactionError, simulateTransaction } from '../utils/simulation'
+import { trackTransaction } from '../utils/nonceQueue'
+import { waitForOutcome } from '../utils/replacement'
+
+interface Network {
+  name: string
+  chainId: string
+  rpcUrl: string
+  symbol: string
+  decimals: number
+}
+
+interface BatchToken {
+  symbol: string
+  address: string
+  decimals: number
+  // 已连接 signer 的代币合约
+  contract: ethers.Contract
+}
+
+interface BatchReview {
+  total: bigint
+  // 转账币种的余额（原生币或代币）
+  balance: bigint
+  // 支付 Gas 的原生币余额
+  nativeBalance: bigint
+  gasTotal: bigint
+  feeTotal: bigint
+  // 按行号记录的模拟失败原因
+  simulationErrors: Record<number, string>
+}
+
+interface BatchPayoutProps {
+  account: string
+  provider: ethers.BrowserProvider | null
+  signer: ethers.JsonRpcSigner | null
+  network: Network
+  // 不传时为原生币批量转账
+  token?: BatchToken
+  // 每笔交易广播后通知父组件写入交易记录
+  onRowSent: (row: BatchPayoutRow, hash: string) => void
+  onRowSettled: (hash: string, status: 'confirmed' | 'failed' | 'replaced' | 'cancelled', replacedBy?: string) => void
+  onFinished: () => void
+}
+
+const ROW_STATUS_LABELS: Record<BatchRowStatus, { label: string; color: string }> = {
+  pending: { label: '⏳ 未发送', color: '#718096' },
+  sent: { label: '🔄 待确认', color: '#ed8936' },
+  unknown: { label: '⚠️ 需人工核对', color: '#d69e2e' },
+  confirmed: { label: '✅ 已到账', color: '#48bb78' },
+  failed: { label: '❌ 失败', color: '#f56565' },
+  cancelled: { label: '🚫 已取消', color: '#718096' }
+}
+
+const CSV_PLACEHOLDER = `address,amount,memo
+0x1234...abcd,1.5,工资
+0x5678...ef01,0.2`
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+export function BatchPayout({
+  account,
+  provider,
+  signer,
+  network,
+  token,
+  onRowSent,
+  onRowSettled,
+  onFinished
+}: BatchPayoutProps) {
+  const { showError, showSuccess } = useNotification()
+  const symbol = token ? token.symbol : network.symbol
+  const decimals = token ? token.decimals : network.decimals
+  const { batch, completed, isUnfinished, startBatch, updateRow, clearBatch } = useBatchPayout(
+    network.chainId,
+    account,
+    token ? token.address : 'native'
+  )
+  const [csvText, setCsvText] = useState<string>('')
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [review, setReview] = useState<BatchReview | null>(null)
+  const [isReviewing, setIsReviewing] = useState<boolean>(false)
+  const [isRunning, setIsRunning] = useState<boolean>(false)
+
+  const { isVisible, steps, showProgress, hideProgress, updateStep, handleComplete } = useTransactionProgress(onFinished)
+  const fees = useFeeSettings(provider)
+
+  const loadCsvFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      setCsvText(await file.text())
+      setRows([])
+      setReview(null)
+    } catch (error) {
+      console.error('读取CSV文件失败:', error)
+      showError('读取CSV文件失败')
+    }
+  }
+
+  const buildRequest = async (address: string, value: bigint): Promise<ethers.TransactionRequest> => {
+    const overrides = fees.getOverrides()
+    if (token) {
+      return token.contract.getFunction('transfer').populateTransaction(address, value, overrides)
+    }
+    return { to: address, value, ...overrides }
+  }
+
+  // 解析并逐行校验，再查询余额、逐笔模拟得到总Gas费用
+  const reviewBatch = async () => {
+    if (!provider || !account) {
+      showError('请先连接钱包')
+      return
+    }
+    if (fees.inputError) {
+      showError(fees.inputError)
+      return
+    }
+
+    const parsed = parseBatchCsv(csvText, decimals)
+    setRows(parsed)
+    setReview(null)
+    if (parsed.length === 0) {
+      showError('CSV 中没有可用的转账行')
+      return
+    }
+    if (parsed.some(row => row.error)) {
+      showError('部分行校验失败，请修正后重新校验')
+      return
+    }
+
+    try {
+      setIsReviewing(true)
+      const nativeBalance = await provider.getBalance(account)
+      const balance = token ? ((await token.contract.balanceOf(account)) as bigint) : nativeBalance
+
+      let total = 0n
+      let gasTotal = 0n
+      let feeTotal = 0n
+      const simulationErrors: Record<number, string> = {}
+      // 逐笔在 pending 状态上模拟，避免并发请求触发节点限流
+      for (const row of parsed) {
+        const value = row.value as bigint
+        total += value
+        try {
+          const request = await buildRequest(row.address, value)
+          const simulation = await simulateTransaction(
+            provider,
+            { ...request, from: account },
+            token?.contract.interface
+          )
+          gasTotal += simulation.gasLimit
+          feeTotal += simulation.fee
+        } catch (simulationError) {
+          simulationErrors[row.line] = simulationError instanceof Error ? simulationError.message : '模拟失败'
+        }
+      }
+
+      setReview({ total, balance, nativeBalance, gasTotal, feeTotal, simulationErrors })
+    } catch (error) {
+      console.error('批量转账校验失败:', error)
+      showError('批量转账校验失败: ' + describeTransactionError(error))
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  // 恢复时核对分配过 nonce 的行：节点能找到原交易就继续等待；找不到时，nonce 未被占用才用同一 nonce 重新发送，
+  // 已被占用（可能被加速或替换后上链）则无法确认是否到账，交给用户核对，避免重复付款
+  const resolveSentRow = async (
+    row: BatchPayoutRow
+  ): Promise<{ tx: ethers.TransactionResponse } | { resendNonce: number } | 'unknown'> => {
+    if (!provider) throw new Error('请先连接钱包')
+    if (row.hash) {
+      const tx = await provider.getTransaction(row.hash)
+      if (tx) return { tx }
+    }
+    if (row.nonce === undefined) return 'unknown'
+    const latest = await provider.getTransactionCount(account, 'latest')
+    return latest > row.nonce ? 'unknown' : { resendNonce: row.nonce }
+  }
+
+  // 按顺序逐笔发送，每笔确认后再发下一笔；中途失败或拒绝签名会停止，之后可从断点继续
+  const runBatch = async (current: Batch) => {
+    if (!signer || !provider) {
+      showError('请先连接钱包')
+      return
+    }
+
+    const progressSteps: TransactionStep[] = current.rows.map((row, index) => ({
+      id: `row-${index}`,
+      label: `#${index + 1} ${row.amount} ${current.symbol} → ${shortAddress(row.address)}${row.memo ? ` (${row.memo})` : ''}`,
+      status: row.status === 'confirmed' ? 'success' : 'pending',
+      txHash: row.status === 'confirmed' ? row.hash : undefined
+    }))
+    showProgress(progressSteps)
+
+    setIsRunning(true)
+    try {
+      for (const [index, row] of current.rows.entries()) {
+        if (row.status === 'confirmed') continue
+        const stepId = `row-${index}`
+        updateStep(stepId, { status: 'loading' })
+
+        try {
+          let tx: ethers.TransactionResponse | null = null
+          let nonce: number | undefined
+          if (row.status === 'sent' || row.status === 'unknown' || row.nonce !== undefined) {
+            const resolved = await resolveSentRow(row)
+            if (resolved === 'unknown') {
+              const reason = '该笔的 nonce 已被其他交易使用，无法确认是否已到账，请在区块浏览器核对'
+              updateRow(index, { status: 'unknown', error: reason })
+              updateStep(stepId, { status: 'error', error: reason })
+              showError(`第 ${index + 1} 笔需要人工核对，批量转账已暂停`)
+              return
+            }
+            if ('tx' in resolved) {
+              tx = resolved.tx
+            } else {
+              nonce = resolved.resendNonce
+            }
+          }
+          if (!tx) {
+            // 先记下 nonce 再发送，发送后页面中断也能判断这一笔是否已经上链
+            if (nonce === undefined) {
+              nonce = await provider.getTransactionCount(account, 'pending')
+              updateRow(index, { nonce })
+            }
+            const value = BigInt(row.value)
+            const overrides = { ...fees.getOverrides(), nonce }
+            tx = await trackTransaction(
+              { chainId: network.chainId, account, label: `批量转账 #${index + 1} ${row.amount} ${current.symbol}` },
+              () => token
+                ? token.contract.transfer(row.address, value, overrides)
+                : signer.sendTransaction({ to: row.address, value, ...overrides })
+            )
+            updateRow(index, { status: 'sent', hash: tx.hash, error: undefined })
+            onRowSent(row, tx.hash)
+          }
+          updateStep(stepId, { status: 'loading', txHash: tx.hash })
+
+          const outcome = await waitForOutcome(tx)
+          if (outcome.status === 'confirmed') {
+            updateRow(index, { status: 'confirmed' })
+            updateStep(stepId, { status: 'success' })
+            onRowSettled(tx.hash, 'confirmed')
+            continue
+          }
+          if (outcome.status === 'replaced') {
+            // 加速后的交易内容相同，按替换交易的执行结果判断是否到账
+            const succeeded = outcome.receipt.status === 1
+            updateRow(index, { status: succeeded ? 'confirmed' : 'failed', hash: outcome.replacementHash })
+            updateStep(stepId, { status: succeeded ? 'success' : 'error', txHash: outcome.replacementHash })
+            onRowSettled(tx.hash, 'replaced', outcome.replacementHash)
+            if (succeeded) continue
+            showError(`第 ${index + 1} 笔转账执行失败，批量转账已暂停`)
+            return
+          }
+
+          updateRow(index, { status: outcome.status, error: outcome.status === 'failed' ? '交易执行失败' : '交易已取消' })
+          updateStep(stepId, outcome.status === 'failed'
+            ? { status: 'error', error: '交易执行失败' }
+            : { status: 'cancelled' })
+          onRowSettled(tx.hash, outcome.status, outcome.status === 'cancelled' ? outcome.replacementHash : undefined)
+          showError(`第 ${index + 1} 笔转账${outcome.status === 'failed' ? '执行失败' : '已被取消'}，批量转账已暂停`)
+          return
+        } catch (error) {
+          console.error(`批量转账第 ${index + 1} 笔失败:`, error)
+          const reason = describeTransactionError(error, token?.contract.interface)
+          updateRow(index, { error: reason })
+          updateStep(stepId, { status: 'error', error: reason })
+          showError(`第 ${index + 1} 笔转账失败，批量转账已暂停: ${reason}`)
+          return
+        }
+      }
+
+      showSuccess(`批量转账完成，共 ${current.rows.length} 笔`)
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const startSending = () => {
+    const payoutRows: BatchPayoutRow[] = rows.map(row => ({
+      address: row.address,
+      amount: row.amount,
+      memo: row.memo,
+      value: (row.value as bigint).toString(),
+      status: 'pending'
+    }))
+    setRows([])
+    setReview(null)
+    setCsvText('')
+    runBatch(startBatch(symbol, payoutRows))
+  }
+
+  const discardBatch = () => {
+    if (batch && isUnfinished && !confirm(`还有 ${batch.rows.length - completed} 笔未完成，确定放弃这个批次吗？`)) {
+      return
+    }
+    clearBatch()
+    hideProgress()
+  }
+
+  // 人工核对后的处理：已到账直接标记完成；确认未到账则清除 nonce，下次继续时作为新交易发送
+  const resolveUnknownRow = (index: number, received: boolean) => {
+    const row = batch?.rows[index]
+    if (!row) return
+    if (!received && !confirm(`确认第 ${index + 1} 笔没有到账并重新发送吗？已到账时会重复付款。`)) return
+    updateRow(index, received
+      ? { status: 'confirmed', error: undefined }
+      : { status: 'pending', nonce: undefined, hash: undefined, error: undefined })
+  }
+
+  const hasRowErrors = rows.some(row => row.error)
+  const hasSimulationErrors = review !== null && Object.keys(review.simulationErrors).length > 0
+  // 原生币转账时金额和Gas费用都从同一余额中扣除
+  const insufficientBalance = review !== null && (
+    token
+      ? review.total > review.balance || review.feeTotal > review.nativeBalance
+      : review.total + review.feeTotal > review.balance
+  )
+  const canSend = review !== null && !hasRowErrors && !hasSimulationErrors && !insufficientBalance && !isRunning
+
+  return (
+    <>
+      {batch && (
+        <div className="transaction-preview" style={{ marginBottom: '20px' }}>
+          <div className="progress-info">
+            <span className="progress-text">
+              📦 {isUnfinished ? '未完成的批量转账' : '批量转账已完成'} · {completed}/{batch.rows.length} 笔已到账
+            </span>
+          </div>
+          <div className="record-details">
+            <p><strong>创建时间:</strong> {new Date(batch.createdAt).toLocaleString()}</p>
+            {batch.rows.map((row, index) => (
+              <p key={index}>
+                #{index + 1} {shortAddress(row.address)} · {row.amount} {batch.symbol}{' '}
+                <span style={{ color: ROW_STATUS_LABELS[row.status].color }}>{ROW_STATUS_LABELS[row.status].label}</span>
+                {row.error && row.status !== 'confirmed' && <span style={{ color: '#f56565' }}> · {row.error}</span>}
+                {row.status === 'unknown' && !isRunning && (
+                  <>
+                    {' '}
+                    <button className="clear-search-btn" onClick={() => resolveUnknownRow(index, true)}>已到账</button>
+                    {' '}
+                    <button className="clear-search-btn" onClick={() => resolveUnknownRow(index, false)}>未到账，重新发送</button>
+                  </>
+                )}
+              </p>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: '12px', marginTop: '15px' }}>
+            <button className="clear-search-btn" onClick={discardBatch} disabled={isRunning} style={{ flex: '1' }}>
+              {isUnfinished ? '放弃批次' : '清除'}
+            </button>
+            {isUnfinished && (
+              <button
+                className="submit-btn"
+                onClick={() => runBatch(batch)}
+                disabled={isRunning || !signer}
+                style={{ flex: '2', marginTop: 0 }}
+              >
+                {isRunning ? '发送中...' : '▶️ 从断点继续'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!isUnfinished && (
+        <>
+          <div className="form-row">
+            <textarea
+              className="form-textarea"
+              placeholder={CSV_PLACEHOLDER}
+              value={csvText}
+              onChange={(e) => {
+                setCsvText(e.target.value)
+                setRows([])
+                setReview(null)
+              }}
+              rows={6}
+            />
+          </div>
+
+          <div className="form-row" style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            <input
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              onChange={(e) => loadCsvFile(e.target.files?.[0])}
+            />
+            <button
+              className="search-btn"
+              onClick={reviewBatch}
+              disabled={isReviewing || isRunning || !csvText.trim() || !account}
+            >
+              {isReviewing ? '校验中...' : '🔍 解析并校验'}
+            </button>
+          </div>
+
+          {rows.length > 0 && (
+            <div style={{ overflowX: 'auto', marginBottom: '20px' }}>
+              <table className="batch-table">
+                <thead>
+                  <tr>
+                    <th>行</th>
+                    <th>收款地址</th>
+                    <th>金额 ({symbol})</th>
+                    <th>备注</th>
+                    <th>校验</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const problem = row.error ?? review?.simulationErrors[row.line]
+                    return (
+                      <tr key={row.line} className={problem ? 'invalid' : ''}>
+                        <td>{row.line}</td>
+                        <td><code>{row.address || '-'}</code></td>
+                        <td>{row.amount || '-'}</td>
+                        <td>{row.memo}</td>
+                        <td>{problem ? `❌ ${problem}` : review ? '✅' : '—'}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {review && (
+            <div className="record-details" style={{ marginBottom: '20px' }}>
+              <p><strong>转账笔数:</strong> {rows.length}</p>
+              <p><strong>转账总额:</strong> {ethers.formatUnits(review.total, decimals)} {symbol}</p>
+              <p><strong>当前余额:</strong> {ethers.formatUnits(review.balance, decimals)} {symbol}</p>
+              <p><strong>预计 Gas:</strong> {review.gasTotal.toString()}</p>
+              <p><strong>最高Gas费用:</strong> {ethers.formatEther(review.feeTotal)} {network.symbol}</p>
+              {insufficientBalance && (
+                <p style={{ color: '#f56565' }}>
+                  ⚠️ {token && review.total <= review.balance
+                    ? `${network.symbol} 余额不足以支付Gas费用`
+                    : `${symbol} 余额不足以支付全部转账`}
+                </p>
+              )}
+            </div>
+          )}
+
+          <FeePanel
+            fees={fees}
+            symbol={network.symbol}
+            estimatedGas={review ? review.gasTotal : undefined}
+            value={review && !token ? review.total : undefined}
+          />
+
+          <button className="submit-btn" onClick={startSending} disabled={!canSend || !signer}>
+            {isRunning ? '发送中...' : `开始批量发送${review ? ` (${rows.length} 笔)` : ''}`}
+          </button>
+        </>
+      )}
+
+      {/* 每笔转账对应一个进度步骤 */}
+      {isVisible && (
+        <TransactionProgress
+          steps={steps}
+          onClose={hideProgress}
+          provider={provider}
+          onComplete={handleComplete}
+        />
+      )}
+    </>
+  )
+}
@@ -1,190 +1,150 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { ethers } from "ethers";
-import { request, gql } from "graphql-request";
 import { TransactionProgress, type TransactionStep } from './TransactionProgress';
 import { useTransactionProgress } from '../hooks/useTransactionProgress';
 import { useNotification } from '../hooks/useNotification';
-
-interface ContractInfo {
+import { useTransactionPreview } from '../hooks/useTransactionPreview';
+import { TransactionPreview } from './TransactionPreview';
+import { FeePanel } from './FeePanel';
+import { useFeeSettings } from '../hooks/useFeeSettings';
+import { AbiFunctionForm } from './AbiFunctionForm';
+import { ContractStateHistory } from './ContractStateHistory';
+import { decodeOutputs, formatAbiValue, splitFunctions, type DecodedOutput } from '../utils/abi';
+import { trackTransaction } from '../utils/nonceQueue';
+import { describeTransactionError, simulateTransaction, type SimulationResult } from '../utils/simulation';
+import type { StoredContract } from '../hooks/useContractRegistry';
+import { GRAPH_URL } from '../utils/subgraph';
+import { useContractLogs, EMPTY_FILTERS, type LogFilters } from '../hooks/useContractLogs';
+import { useHistory } from '../hooks/useHistory';
+import { addHistoryRecords, NATIVE_TOKEN, updateHistoryRecord } from '../utils/historyRepository';
+import { HistoryTransferBar } from './HistoryTransferBar';
+
+interface Network {
   name: string;
-  age: string;
-}
-
-interface ContractLog {
-  id: string;
-  transactionHash?: string;
-  blockNumber?: string;
-  blockTimestamp?: string;
-  name?: string;
-  age?: string;
+  chainId: string;
+  rpcUrl: string;
+  symbol: string;
+  decimals: number;
 }
 
 interface ContractCallProps {
   account: string;
   provider: ethers.BrowserProvider | null;
   signer: ethers.JsonRpcSigner | null;
+  network: Network;
+  networks: Network[];
   contractAddress: string;
   contractABI: ethers.InterfaceAbi;
+  contracts: StoredContract[];
+  selectedContractId: string;
+  onSelectContract: (id: string) => void;
 }
 
 export function ContractCall({
   account,
   provider,
   signer,
+  network,
+  networks,
   contractAddress,
   contractABI,
+  contracts,
+  selectedContractId,
+  onSelectContract,
 }: ContractCallProps) {
-  const { showError, showSuccess, showWarning } = useNotification();
-  const [contractInfo, setContractInfo] = useState<ContractInfo>({
-    name: "",
-    age: "",
-  });
-  const [isContractLoading, setIsContractLoading] = useState<boolean>(false);
-  const [contractLogs, setContractLogs] = useState<ContractLog[]>([]);
-  const [searchTerm, setSearchTerm] = useState<string>("");
+  const { showError } = useNotification();
+  const [functionMode, setFunctionMode] = useState<"read" | "write" | "history">("read");
   const [searchInput, setSearchInput] = useState<string>("");
+  const [filterDraft, setFilterDraft] = useState<LogFilters>(EMPTY_FILTERS);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // 当前账户在本网络上对这个合约发起的调用
+  const { records: allCallRecords } = useHistory({
+    type: "contract",
+    account: account || undefined,
+    chainId: network.chainId,
+  });
+  const callRecords = allCallRecords.filter(
+    (record) => record.to.toLowerCase() === contractAddress.toLowerCase()
+  );
+
+  const {
+    logs: contractLogs,
+    schemaError,
+    logsError,
+    indexingStatus,
+    supportsFromFilter,
+    filters,
+    applyFilters,
+    hasMore,
+    isLoading: isLoadingLogs,
+    isLoadingMore,
+    isLive,
+    setLive,
+    refresh: refreshContractLogs,
+    loadMore,
+    queryByHash,
+  } = useContractLogs({ provider, contractAddress, contractABI });
   
   // 交易进度条状态
   const { isVisible, steps, showProgress, hideProgress, updateStep, handleComplete } = useTransactionProgress(() => {
     // 完成后自动查询合约日志
-    queryContractLogs(10);
+    refreshContractLogs();
   });
+  const { preview, requestConfirmation, confirmPreview, cancelPreview } = useTransactionPreview();
+  const fees = useFeeSettings(provider);
 
-  // 组件初始化时查询一次
-  useEffect(() => {
-    queryContractLogs(10);
-  }, []); // 空依赖数组，只在组件挂载时执行一次
-
-  const queryContractLogs = async (limit: number = 10) => {
-    const GRAPH_URL = import.meta.env.VITE_GRAPH_API_URL || 
-      "https://api.studio.thegraph.com/query/119001/yd-graph-2/v0.0.1";
-
-    const possibleFieldNames = [
-      "instructors",
-      "instructorEntities",
-      "instructor",
-      "events",
-      "logs",
-      "instructorEvents",
-    ];
-
-    let successful = false;
+  const { iface, readFunctions, writeFunctions } = useMemo(
+    () => splitFunctions(contractABI),
+    [contractABI]
+  );
+  const visibleFunctions = functionMode === "read" ? readFunctions : writeFunctions;
+  // 历史状态只支持无参数的只读函数
+  const historyFunctions = useMemo(
+    () => readFunctions.filter((fragment) => fragment.inputs.length === 0),
+    [readFunctions]
+  );
+  const eventBlocks = contractLogs
+    .map((log) => parseInt(log.blockNumber || ""))
+    .filter((blockNumber) => !isNaN(blockNumber));
 
-    for (const fieldName of possibleFieldNames) {
-      try {
-        const query = gql`
-          query GetEvents($first: Int!) {
-            ${fieldName}(first: $first, orderBy: blockTimestamp, orderDirection: desc) {
-              id
-              transactionHash
-              blockNumber
-              blockTimestamp
-              name
-              age
-            }
-          }
-        `;
-
-        console.log(`尝试查询字段: ${fieldName}, 限制: ${limit}条`);
-        const data: Record<string, unknown[]> = await request(GRAPH_URL, query, { first: limit });
-
-        if (data[fieldName] && data[fieldName].length > 0) {
-          console.log(
-            `成功使用字段 ${fieldName}, 获取到 ${data[fieldName].length} 条记录:`,
-            data[fieldName]
-          );
-          setContractLogs(data[fieldName] as ContractLog[] || []);
-          successful = true;
-          break;
-        }
-      } catch (err) {
-        console.log(`字段 ${fieldName} 查询失败:`, err);
-      }
-    }
+  // 滚动到列表底部时自动加载下一页
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
 
-    if (!successful) {
-      console.log("所有预设字段都查询失败，尝试基础查询");
-      try {
-        const basicQuery = gql`
-          query BasicQuery {
-            _meta {
-              block {
-                number
-                timestamp
-              }
-            }
-          }
-        `;
-        const metaData: Record<string, unknown> = await request(GRAPH_URL, basicQuery);
-        console.log("子图元数据:", metaData);
-        setContractLogs([]);
-      } catch (metaError) {
-        console.error("基础查询也失败:", metaError);
-        setContractLogs([]);
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMore();
       }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, contractLogs.length]);
+
+  const callContract = async (
+    fragment: ethers.FunctionFragment,
+    args: unknown[],
+    value?: bigint
+  ): Promise<DecodedOutput[] | null> => {
+    if (!signer || !provider) {
+      showError("请先连接钱包");
+      return null;
     }
-  };
-
-  const queryTransactionByHash = async (txHash: string) => {
-    const GRAPH_URL = import.meta.env.VITE_GRAPH_API_URL || 
-      "https://api.studio.thegraph.com/query/119001/yd-graph-2/v0.0.1";
-
-    if (!txHash || txHash.length !== 66) {
-      showError("请输入有效的交易哈希 (0x开头的66位字符串)");
-      return;
-    }
-
-    const possibleFieldNames = [
-      "instructors",
-      "instructorEntities",
-      "instructor",
-      "events",
-      "logs",
-      "instructorEvents",
-    ];
 
-    for (const fieldName of possibleFieldNames) {
-      try {
-        const query = gql`
-          query GetTransactionByHash($txHash: String!) {
-            ${fieldName}(where: {transactionHash: $txHash}) {
-              id
-              transactionHash
-              blockNumber
-              blockTimestamp
-              name
-              age
-            }
-          }
-        `;
-
-        console.log(`按交易哈希查询: ${txHash}`);
-        const data: Record<string, unknown[]> = await request(GRAPH_URL, query, { txHash });
-
-        if (data[fieldName] && data[fieldName].length > 0) {
-          console.log(`找到交易信息:`, data[fieldName]);
-          setContractLogs(data[fieldName] as ContractLog[]);
-          showSuccess(`成功找到 ${data[fieldName].length} 条相关记录`);
-          return;
-        }
-      } catch (err) {
-        console.log(`字段 ${fieldName} 查询失败:`, err);
-      }
+    if (!contractAddress) {
+      showError("当前网络未设置合约地址，请在合约管理中配置");
+      return null;
     }
 
-    showWarning("未找到该交易的记录，请检查交易哈希是否正确");
-    setContractLogs([]);
-  };
-
-  const callContract = async () => {
-    if (!signer || !contractInfo.name || !contractInfo.age) {
-      showError("请填写姓名和年龄");
-      return;
+    if (fees.inputError) {
+      showError(fees.inputError);
+      return null;
     }
 
+    // 已提交的交易失败时需要把对应记录标记为失败
+    let submittedHash: string | null = null;
     try {
-      setIsContractLoading(true);
-
       // 设置合约调用进度步骤
       const progressSteps: TransactionStep[] = [
         {
@@ -192,9 +152,14 @@ export function ContractCall({
           label: '验证合约参数',
           status: 'loading'
         },
+        {
+          id: 'simulate',
+          label: '模拟执行合约调用',
+          status: 'pending'
+        },
         {
           id: 'submit',
-          label: '提交合约调用',
+          label: `提交合约调用 ${fragment.name}`,
           status: 'pending'
         },
         {
@@ -217,15 +182,72 @@ export function ContractCall({
         signer
       );
 
-      // 验证完成
+      const overrides = { ...fees.getOverrides(), ...(value !== undefined ? { value } : {}) };
+      const txRequest = await contract.getFunction(fragment).populateTransaction(...args, overrides);
+
+      // 验证完成，发送前先在 pending 状态上模拟
       updateStep('validation', { status: 'success' });
+      updateStep('simulate', { status: 'loading' });
+
+      let simulation: SimulationResult;
+      try {
+        simulation = await simulateTransaction(provider, { ...txRequest, from: account }, iface);
+      } catch (simulationError) {
+        const reason = simulationError instanceof Error ? simulationError.message : "未知错误";
+        updateStep('simulate', { status: 'error', error: reason });
+        showError("合约调用模拟失败: " + reason);
+        return null;
+      }
+      updateStep('simulate', { status: 'success' });
+
+      const expectedOutputs = fragment.outputs.length > 0
+        ? decodeOutputs(fragment, iface.decodeFunctionResult(fragment, simulation.returnData))
+        : [];
+      const confirmed = await requestConfirmation({
+        title: `调用预览 ${fragment.name}`,
+        details: [
+          { label: "函数", value: fragment.format('sighash') },
+          ...fragment.inputs.map((param, index) => ({
+            label: `参数 ${param.name || index}`,
+            value: formatAbiValue(args[index])
+          })),
+          ...(value !== undefined ? [{ label: "附带金额", value: `${ethers.formatEther(value)} ${network.symbol}` }] : []),
+          ...expectedOutputs.map((output) => ({ label: `预期返回 ${output.name}`, value: output.value })),
+          { label: "预期结果", value: "模拟执行成功" }
+        ],
+        gasLimit: simulation.gasLimit,
+        fee: simulation.fee,
+        value
+      });
+      if (!confirmed) {
+        hideProgress();
+        return null;
+      }
+
       updateStep('submit', { status: 'loading' });
 
-      const tx = await contract.setInfo(
-        contractInfo.name,
-        parseInt(contractInfo.age)
+      const tx = await trackTransaction(
+        { chainId: network.chainId, account, label: `调用 ${fragment.name}` },
+        () => contract.getFunction(fragment)(...args, overrides)
       );
-      console.log("合约调用交易已提交:", tx.hash);
+      submittedHash = tx.hash;
+      console.log(`合约调用 ${fragment.name} 交易已提交:`, tx.hash);
+
+      await addHistoryRecords([{
+        type: "contract",
+        hash: tx.hash,
+        chainId: network.chainId,
+        account,
+        from: account,
+        to: contractAddress,
+        amount: ethers.formatUnits(value ?? 0n, network.decimals),
+        token: NATIVE_TOKEN,
+        decimals: network.decimals,
+        data: `${fragment.name}(${args.map(formatAbiValue).join(", ")})`,
+        timestamp: Date.now(),
+        source: "local",
+        status: "pending",
+      }]);
 
       // 提交成功，开始确认
       updateStep('submit', { status: 'success', txHash: tx.hash });
@@ -234,33 +256,43 @@ export function ContractCall({
       // 等待交易确认 - 进度条组件会自动处理waitForTransaction
       await tx.wait();
       console.log("合约调用已确认");
+      await updateHistoryRecord(tx.hash, NATIVE_TOKEN, { status: "confirmed" });
 
       // 确认成功，开始刷新日志
       updateStep('confirm', { status: 'success' });
       updateStep('refresh', { status: 'loading' });
 
-      await queryContractLogs(10);
+      await refreshContractLogs();
 
       // 完成所有步骤
       updateStep('refresh', { status: 'success' });
-
-      setContractInfo({ name: "", age: "" });
+      return [];
     } catch (error) {
       console.error("合约调用失败:", error);
+      if (submittedHash) {
+        // 记录写入失败不能打断下面的错误提示
+        await updateHistoryRecord(submittedHash, NATIVE_TOKEN, { status: "failed" }).catch(console.error);
+      }
       
       // 更新当前步骤为错误状态
+      const errorMsg = describeTransactionError(error, iface);
       const currentStep = steps.find(s => s.status === 'loading');
       if (currentStep) {
-        const errorMsg = error instanceof Error ? error.message : "未知错误";
         updateStep(currentStep.id, { status: 'error', error: errorMsg });
       }
-    } finally {
-      setIsContractLoading(false);
+      showError("合约调用失败: " + errorMsg);
+      return null;
     }
   };
 
-  const queryContractInfo = async () => {
-    if (!provider || !contractAddress) return;
+  const readContract = async (
+    fragment: ethers.FunctionFragment,
+    args: unknown[]
+  ): Promise<DecodedOutput[] | null> => {
+    if (!provider || !contractAddress) {
+      showError("请先连接钱包");
+      return null;
+    }
 
     try {
       const contract = new ethers.Contract(
@@ -268,11 +300,10 @@ export function ContractCall({
         contractABI,
         provider
       );
-      const [name, age] = await contract.getInfo();
-      const result = { name, age: age.toString() };
-      console.log("合约当前状态:", result);
-      showSuccess(`当前合约状态: 姓名: ${name}, 年龄: ${age.toString()}`);
-      return result;
+      const result = await contract.getFunction(fragment).staticCallResult(...args);
+      const outputs = decodeOutputs(fragment, result);
+      console.log(`合约函数 ${fragment.name} 返回:`, outputs);
+      return outputs;
     } catch (error) {
       console.error("查询合约状态失败:", error);
       showError(
@@ -282,32 +313,53 @@ export function ContractCall({
     }
   };
 
-  // 安全的字符串检查函数
-  const safeIncludes = (
-    str: string | undefined | null,
-    searchTerm: string
-  ): boolean => {
+  const isTxHash = (value: string) => value.startsWith("0x") && value.length === 66;
 
-    if (!str || !searchTerm) return false;
-    return str.toString().toLowerCase().includes(searchTerm.toLowerCase());
+  const performSearch = () => {
+    const keyword = searchInput.trim();
+    if (isTxHash(keyword)) {
+      queryByHash(keyword);
+      return;
+    }
+    const next = { ...filterDraft, nameContains: keyword };
+    if (next.ageGte && !/^\d+$/.test(next.ageGte)) {
+      showError("年龄必须是非负整数");
+      return;
+    }
+    if (next.from && !ethers.isAddress(next.from)) {
+      showError("请输入有效的发送地址");
+      return;
+    }
+    applyFilters(next);
   };
 
-  // 过滤合约日志
-  const filteredContractLogs = contractLogs.filter((log) => {
-    if (!searchTerm) return true; // 如果没有搜索词，显示所有日志
-    return (
-      safeIncludes(log.transactionHash, searchTerm) ||
-      safeIncludes(log.name, searchTerm) ||
-      safeIncludes(log.age, searchTerm) ||
-      safeIncludes(log.blockNumber, searchTerm)
-    );
-  });
+  const clearSearch = () => {
+    setSearchInput("");
+    setFilterDraft(EMPTY_FILTERS);
+    applyFilters(EMPTY_FILTERS);
+  };
+
+  const hasActiveFilters = Boolean(filters.nameContains || filters.ageGte || filters.from);
 
   return (
     <div className="unified-layout">
       {/* 转账表单区域 */}
       <div className="transfer-section">
         <h2>合约调用</h2>
+
+        <div className="form-row">
+          <select
+            className="form-input"
+            value={selectedContractId}
+            onChange={(e) => onSelectContract(e.target.value)}
+          >
+            {contracts.map((contract) => (
+              <option key={contract.id} value={contract.id}>
+                {contract.name}
+              </option>
+            ))}
+          </select>
+        </div>
         
         <div style={{ 
           background: 'rgba(102, 126, 234, 0.1)', 
@@ -316,60 +368,72 @@ export function ContractCall({
           padding: '15px',
           marginBottom: '20px'
         }}>
-          <p><strong>合约地址:</strong> {contractAddress}</p>
-          <p><strong>功能说明:</strong> 调用 setInfo 函数设置你的姓名和年龄</p>
+          <p><strong>合约地址:</strong> {contractAddress || "当前网络未设置，请在合约管理中配置"}</p>
+          <p>
+            <strong>可用函数:</strong> 读取 {readFunctions.length} 个，写入 {writeFunctions.length} 个
+          </p>
         </div>
-        
-        <div className="form-row">
-          <input
-            type="text"
-            className="form-input"
-            placeholder="姓名 (name)"
-            value={contractInfo.name}
-            onChange={(e) =>
-              setContractInfo((prev) => ({ ...prev, name: e.target.value }))
-            }
-          />
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '20px' }}>
+          {(["read", "write", "history"] as const).map((mode) => (
+            <button
+              key={mode}
+              className={`token-btn ${functionMode === mode ? 'active' : ''}`}
+              onClick={() => setFunctionMode(mode)}
+            >
+              {mode === "read"
+                ? `📖 读取 (${readFunctions.length})`
+                : mode === "write"
+                  ? `✍️ 写入 (${writeFunctions.length})`
+                  : "🕰️ 历史状态"}
+            </button>
+          ))}
         </div>
-        
-        <div className="form-row">
-          <input
-            type="number"
-            className="form-input"
-            placeholder="年龄 (age)"
-            value={contractInfo.age}
-            onChange={(e) =>
-              setContractInfo((prev) => ({ ...prev, age: e.target.value }))
-            }
+
+        {functionMode === "write" && writeFunctions.length > 0 && (
+          <FeePanel fees={fees} symbol={network.symbol} />
+        )}
+
+        {functionMode === "history" ? (
+          <ContractStateHistory
+            key={contractAddress}
+            provider={provider}
+            contractAddress={contractAddress}
+            contractABI={contractABI}
+            fragments={historyFunctions}
+            eventBlocks={eventBlocks}
           />
-        </div>
-        
-        <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
-          <button
-            className="submit-btn"
-            onClick={callContract}
-            disabled={isContractLoading || !account}
-            style={{ flex: '1', minWidth: '120px' }}
-          >
-            {isContractLoading ? "调用中..." : "调用合约"}
-          </button>
-          <button
-            className="submit-btn"
-            onClick={queryContractInfo}
-            disabled={!provider}
-            style={{ 
-              flex: '1',
-              minWidth: '120px',
-              background: !provider 
-                ? 'linear-gradient(135deg, #cbd5e0 0%, #a0aec0 100%)'
-                : 'linear-gradient(135deg, #4299e1 0%, #3182ce 100%)'
-            }}
-          >
-            查询当前状态
-          </button>
-        </div>
+        ) : visibleFunctions.length === 0 ? (
+          <div className="empty-state">
+            <p>{functionMode === "read" ? "没有可读取的函数" : "没有可写入的函数"}</p>
+            <p>当前ABI中未找到对应类型的函数</p>
+          </div>
+        ) : (
+          visibleFunctions.map((fragment) => (
+            <AbiFunctionForm
+              key={`${contractAddress}:${fragment.selector}`}
+              fragment={fragment}
+              disabled={!contractAddress || (functionMode === "read" ? !provider : !account)}
+              onSubmit={(args, value) =>
+                functionMode === "read"
+                  ? readContract(fragment, args)
+                  : callContract(fragment, args, value)
+              }
+            />
+          ))
+        )}
       </div>
 
+      {/* 发送前的模拟结果预览 */}
+      {preview && (
+        <TransactionPreview
+          preview={preview}
+          symbol={network.symbol}
+          onConfirm={confirmPreview}
+          onCancel={cancelPreview}
+        />
+      )}
+
       {/* 交易进度条 */}
       {isVisible && (
         <TransactionProgress
@@ -380,6 +444,34 @@ export function ContractCall({
         />
       )}
       
+      {/* 本账户发起的合约调用 */}
+      <div className="records-section">
+        <h2>我的合约调用</h2>
+        <HistoryTransferBar records={callRecords} networks={networks} fileName="contract-history" />
+        <div className="records-list">
+          {callRecords.length === 0 ? (
+            <div className="empty-state">
+              <p>暂无合约调用记录</p>
+              <p>通过写入函数提交的调用会显示在这里</p>
+            </div>
+          ) : (
+            callRecords.map((record) => (
+              <div key={record.hash} className="record-item">
+                <div className="record-header">
+                  <div className="tx-hash">{record.hash}</div>
+                  <div className="timestamp">{new Date(record.timestamp).toLocaleString()}</div>
+                </div>
+                <div className="record-details">
+                  <p><strong>调用:</strong> {record.data}</p>
+                  {record.amount !== "0.0" && <p><strong>附带金额:</strong> {record.amount} {network.symbol}</p>}
+                  <p><strong>状态:</strong> {record.status ?? "confirmed"}</p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
       {/* 记录查询区域 */}
       <div className="records-section">
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
@@ -387,7 +479,16 @@ export function ContractCall({
           <div style={{ display: 'flex', gap: '8px' }}>
             <button
               className="search-btn"
-              onClick={() => queryContractLogs(10)}
+              onClick={() => setLive(!isLive)}
+              title={isLive ? "关闭实时订阅" : "开启实时订阅"}
+              style={{ fontSize: '12px', padding: '8px 12px', opacity: isLive ? 1 : 0.6 }}
+            >
+              {isLive ? "📡 实时中" : "📡 实时"}
+            </button>
+            <button
+              className="search-btn"
+              onClick={() => refreshContractLogs()}
+              disabled={isLoadingLogs}
               title="刷新合约日志"
               style={{ fontSize: '12px', padding: '8px 12px' }}
             >
@@ -395,7 +496,8 @@ export function ContractCall({
             </button>
             <button
               className="search-btn"
-              onClick={() => queryContractLogs(50)}
+              onClick={() => loadMore()}
+              disabled={!hasMore || isLoadingMore}
               title="加载更多记录"
               style={{ fontSize: '12px', padding: '8px 12px' }}
             >
@@ -404,65 +506,128 @@ export function ContractCall({
           </div>
         </div>
         
+        {indexingStatus && (
+          <div style={{
+            padding: '10px',
+            background: 'rgba(66, 153, 225, 0.1)',
+            borderRadius: '8px',
+            marginBottom: '10px',
+            fontSize: '13px'
+          }}>
+            📈 子图索引区块: #{indexingStatus.subgraphBlock ?? "不可用"}
+            {" / "}链上最新区块: #{indexingStatus.chainHead ?? "未知"}
+            {indexingStatus.subgraphBlock !== null && indexingStatus.chainHead !== null && (
+              <strong style={{ marginLeft: '8px', color: indexingStatus.chainHead - indexingStatus.subgraphBlock > 10 ? '#dd6b20' : '#38a169' }}>
+                落后 {Math.max(0, indexingStatus.chainHead - indexingStatus.subgraphBlock)} 个区块
+              </strong>
+            )}
+            {indexingStatus.hasIndexingErrors && (
+              <strong style={{ marginLeft: '8px', color: '#e53e3e' }}>子图存在索引错误</strong>
+            )}
+            {indexingStatus.gapFilledFrom !== null && (
+              <div style={{ marginTop: '6px', color: '#dd6b20' }}>
+                子图落后过多，RPC 只补齐了 #{indexingStatus.gapFilledFrom} 之后的事件
+              </div>
+            )}
+          </div>
+        )}
+
+        {schemaError && (
+          <div style={{
+            padding: '12px 15px',
+            background: 'rgba(245, 101, 101, 0.1)',
+            border: '1px solid rgba(245, 101, 101, 0.2)',
+            borderRadius: '8px',
+            marginBottom: '15px',
+            color: '#c53030',
+            fontSize: '13px',
+            wordBreak: 'break-word'
+          }}>
+            <strong>⚠️ 子图结构不匹配</strong>
+            <p style={{ margin: '6px 0 0 0' }}>{schemaError}</p>
+            <p style={{ margin: '6px 0 0 0', color: '#718096' }}>子图地址: {GRAPH_URL}</p>
+          </div>
+        )}
+
+        {!schemaError && logsError && (
+          <div style={{ padding: '10px', background: 'rgba(245, 101, 101, 0.1)', borderRadius: '8px', marginBottom: '10px', fontSize: '13px', wordBreak: 'break-word' }}>
+            ⚠️ 查询合约日志失败: {logsError}
+          </div>
+        )}
+
         <div className="search-box">
           <div className="search-input-group">
             <input
               type="text"
               className="search-input"
-              placeholder="输入交易哈希(0x...)精确查询或输入关键词过滤"
+              placeholder="输入交易哈希(0x...)精确查询或输入姓名关键词过滤"
               value={searchInput}
               onChange={(e) => setSearchInput(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === "Enter") {
-                  if (searchInput.startsWith("0x") && searchInput.length === 66) {
-                    queryTransactionByHash(searchInput);
-                    setSearchTerm("");
-                  } else {
-                    setSearchTerm(searchInput);
-                  }
+                  performSearch();
                 }
               }}
             />
             <button
               className="search-btn"
-              onClick={() => {
-                if (searchInput.startsWith("0x") && searchInput.length === 66) {
-                  queryTransactionByHash(searchInput);
-                  setSearchTerm("");
-                } else {
-                  setSearchTerm(searchInput);
-                }
-              }}
+              onClick={performSearch}
             >
-              {searchInput.startsWith("0x") && searchInput.length === 66 ? "🔗" : "🔍"}
+              {isTxHash(searchInput) ? "🔗" : "🔍"}
             </button>
-            {searchTerm && (
+            {(hasActiveFilters || searchInput) && (
               <button
                 className="clear-search-btn"
-                onClick={() => {
-                  setSearchTerm("");
-                  setSearchInput("");
-                }}
+                onClick={clearSearch}
               >
                 ✕
               </button>
             )}
           </div>
+
+          <div className="search-input-group">
+            <input
+              type="number"
+              min="0"
+              className="search-input"
+              placeholder="年龄 ≥"
+              value={filterDraft.ageGte}
+              onChange={(e) => setFilterDraft((prev) => ({ ...prev, ageGte: e.target.value }))}
+            />
+            {supportsFromFilter && (
+              <input
+                type="text"
+                className="search-input"
+                placeholder="发送地址 (0x...)"
+                value={filterDraft.from}
+                onChange={(e) => setFilterDraft((prev) => ({ ...prev, from: e.target.value }))}
+              />
+            )}
+          </div>
           
-          {searchTerm && (
-            <div style={{ padding: '10px', background: 'rgba(72, 187, 120, 0.1)', borderRadius: '8px', marginBottom: '10px' }}>
-              正在搜索: <strong>{searchTerm}</strong> - 找到 {filteredContractLogs.length} 条合约日志
+          {hasActiveFilters && (
+            <div style={{ padding: '10px', background: 'rgba(72, 187, 120, 0.1)', borderRadius: '8px', marginBottom: '10px', wordBreak: 'break-all' }}>
+              正在筛选:
+              {filters.nameContains && <> 姓名包含 <strong>{filters.nameContains}</strong></>}
+              {filters.ageGte && <> 年龄 ≥ <strong>{filters.ageGte}</strong></>}
+              {filters.from && <> 发送地址 <strong>{filters.from}</strong></>}
+              {" "}- 已加载 {contractLogs.length} 条合约日志
             </div>
           )}
         </div>
         
         <div className="records-list">
-          {filteredContractLogs.length === 0 ? (
+          {contractLogs.length === 0 ? (
             <div className="empty-state">
-              {contractLogs.length === 0 ? (
+              {isLoadingLogs ? (
+                <>
+                  <p>🔄 正在查询合约日志...</p>
+                  <p>请稍候</p>
+                </>
+              ) : !hasActiveFilters ? (
                 <>
                   <p>暂无合约日志</p>
-                  <p>调用合约后，日志将通过The Graph显示在这里</p>
+                  <p>调用合约后，日志将通过The Graph或RPC显示在这里</p>
                 </>
               ) : (
                 <>
@@ -472,19 +637,20 @@ export function ContractCall({
               )}
             </div>
           ) : (
-            filteredContractLogs.map((log, index) => (
-              <div key={index} className="record-item">
+            contractLogs.map((log, index) => (
+              <div key={log.id || index} className={log.isNew ? "record-item record-new" : "record-item"}>
                 <div className="record-header">
                   <div>
                     <div style={{ 
                       fontSize: '10px', 
-                      color: '#ed8936',
-                      background: 'rgba(237, 137, 54, 0.1)',
+                      color: log.source === "rpc" ? '#4299e1' : '#ed8936',
+                      background: log.source === "rpc" ? 'rgba(66, 153, 225, 0.1)' : 'rgba(237, 137, 54, 0.1)',
                       padding: '2px 6px',
                       borderRadius: '4px',
                       marginBottom: '5px'
                     }}>
-                      📊 The Graph
+                      {log.source === "rpc" ? "⛓️ RPC" : "📊 The Graph"}
+                      {log.isNew && " · 🆕 新"}
                     </div>
                     <div className="tx-hash">
                       {log.transactionHash || "未知交易哈希"}
@@ -569,12 +735,30 @@ export function ContractCall({
                           #{log.blockNumber || "未知"}
                         </span>
                       </p>
+                      {log.from && (
+                        <p style={{ margin: '8px 0', fontSize: '13px' }}>
+                          <strong>👛 发送地址:</strong>{" "}
+                          <code style={{
+                            fontFamily: "'Courier New', monospace",
+                            fontSize: '12px',
+                            wordBreak: 'break-all'
+                          }}>
+                            {log.from}
+                          </code>
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
             ))
           )}
+
+          {contractLogs.length > 0 && (
+            <div ref={loadMoreRef} className="empty-state" style={{ padding: '12px' }}>
+              {isLoadingMore ? "加载中..." : hasMore ? "向下滚动加载更多" : "已加载全部"}
+            </div>
+          )}
         </div>
       </div>
     </div>
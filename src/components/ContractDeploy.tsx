@@ -0,0 +1,278 @@
+import { useState, useMemo } from 'react'
+import { ethers } from 'ethers'
+import { AbiInputField } from './AbiInputField'
+import { TransactionProgress, type TransactionStep } from './TransactionProgress'
+import { useTransactionProgress } from '../hooks/useTransactionProgress'
+import { useNotification } from '../hooks/useNotification'
+import type { StoredContract } from '../hooks/useContractRegistry'
+import { createDefaultValue, parseAbiArgs, type AbiInputValue } from '../utils/abi'
+
+interface Network {
+  name: string
+  chainId: string
+  rpcUrl: string
+  symbol: string
+  decimals: number
+}
+
+interface ContractDeployProps {
+  account: string
+  provider: ethers.BrowserProvider | null
+  signer: ethers.JsonRpcSigner | null
+  network: Network
+  contracts: StoredContract[]
+  onDeployed: (contractId: string, address: string) => void
+}
+
+interface GasEstimate {
+  gasLimit: bigint
+  cost: string
+}
+
+export function ContractDeploy({
+  account,
+  provider,
+  signer,
+  network,
+  contracts,
+  onDeployed
+}: ContractDeployProps) {
+  const { showError, showSuccess } = useNotification()
+  const deployableContracts = contracts.filter(c => c.bytecode)
+  const [contractId, setContractId] = useState<string>(deployableContracts[0]?.id || '')
+  const [values, setValues] = useState<AbiInputValue[]>([])
+  const [payableValue, setPayableValue] = useState<string>('')
+  const [estimate, setEstimate] = useState<GasEstimate | null>(null)
+  const [isEstimating, setIsEstimating] = useState<boolean>(false)
+  const [isDeploying, setIsDeploying] = useState<boolean>(false)
+
+  const { isVisible, steps, showProgress, hideProgress, updateStep, handleComplete } = useTransactionProgress()
+
+  const contract = deployableContracts.find(c => c.id === contractId) || deployableContracts[0]
+
+  const constructorFragment = useMemo(
+    () => (contract ? new ethers.Interface(contract.abi).deploy : null),
+    [contract]
+  )
+
+  const selectContract = (id: string) => {
+    const next = deployableContracts.find(c => c.id === id)
+    setContractId(id)
+    setValues(next ? new ethers.Interface(next.abi).deploy.inputs.map(createDefaultValue) : [])
+    setPayableValue('')
+    setEstimate(null)
+  }
+
+  // 构造部署交易，参数校验失败时抛出错误
+  const buildDeployment = async () => {
+    if (!contract?.bytecode || !constructorFragment || !signer) {
+      throw new Error('请先连接钱包并选择可部署的合约')
+    }
+    const currentValues = values.length === constructorFragment.inputs.length
+      ? values
+      : constructorFragment.inputs.map(createDefaultValue)
+    const args = parseAbiArgs(constructorFragment.inputs, currentValues)
+    const overrides = constructorFragment.payable && payableValue.trim()
+      ? [{ value: ethers.parseEther(payableValue.trim()) }]
+      : []
+    const factory = new ethers.ContractFactory(contract.abi, contract.bytecode, signer)
+    return { factory, args, overrides }
+  }
+
+  const estimateDeployment = async () => {
+    if (!provider) return
+
+    try {
+      setIsEstimating(true)
+      const { factory, args, overrides } = await buildDeployment()
+      const deployTx = await factory.getDeployTransaction(...args, ...overrides)
+      const gasLimit = await provider.estimateGas({ ...deployTx, from: account })
+      const feeData = await provider.getFeeData()
+      const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n
+
+      setEstimate({
+        gasLimit,
+        cost: ethers.formatEther(gasLimit * gasPrice)
+      })
+    } catch (error) {
+      console.error('估算部署Gas失败:', error)
+      setEstimate(null)
+      showError('估算部署Gas失败: ' + (error instanceof Error ? error.message : '未知错误'))
+    } finally {
+      setIsEstimating(false)
+    }
+  }
+
+  const deployContract = async () => {
+    if (!contract) return
+
+    try {
+      setIsDeploying(true)
+
+      const progressSteps: TransactionStep[] = [
+        {
+          id: 'validation',
+          label: '验证构造参数',
+          status: 'loading'
+        },
+        {
+          id: 'submit',
+          label: `部署 ${contract.name}`,
+          status: 'pending'
+        },
+        {
+          id: 'confirm',
+          label: '等待部署确认',
+          status: 'pending'
+        },
+        {
+          id: 'register',
+          label: '登记合约地址',
+          status: 'pending'
+        }
+      ]
+
+      showProgress(progressSteps)
+
+      const { factory, args, overrides } = await buildDeployment()
+
+      // 验证完成
+      updateStep('validation', { status: 'success' })
+      updateStep('submit', { status: 'loading' })
+
+      const deployed = await factory.deploy(...args, ...overrides)
+      const deployTx = deployed.deploymentTransaction()
+      console.log('部署交易已提交:', deployTx?.hash)
+
+      // 提交成功，开始确认
+      updateStep('submit', { status: 'success', txHash: deployTx?.hash })
+      updateStep('confirm', { status: 'loading', txHash: deployTx?.hash })
+
+      await deployed.waitForDeployment()
+      const address = await deployed.getAddress()
+      console.log('合约部署成功:', address)
+
+      updateStep('confirm', { status: 'success' })
+      updateStep('register', { status: 'loading' })
+
+      onDeployed(contract.id, address)
+
+      updateStep('register', { status: 'success' })
+      showSuccess(`${contract.name} 已部署到 ${network.name}: ${address}`)
+      setValues(constructorFragment ? constructorFragment.inputs.map(createDefaultValue) : [])
+      setPayableValue('')
+      setEstimate(null)
+    } catch (error) {
+      console.error('部署合约失败:', error)
+
+      const currentStep = steps.find(s => s.status === 'loading')
+      const errorMsg = error instanceof Error ? error.message : '未知错误'
+      if (currentStep) {
+        updateStep(currentStep.id, { status: 'error', error: errorMsg })
+      }
+      showError('部署合约失败: ' + errorMsg)
+    } finally {
+      setIsDeploying(false)
+    }
+  }
+
+  if (deployableContracts.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>没有可部署的合约</p>
+        <p>导入包含 bytecode 的合约产物后即可在此部署</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="form-row">
+        <select
+          className="form-input"
+          value={contract?.id}
+          onChange={(e) => selectContract(e.target.value)}
+        >
+          {deployableContracts.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {constructorFragment?.inputs.map((param, index) => (
+        <AbiInputField
+          key={`${contract?.id}:${index}`}
+          param={param}
+          value={values[index] ?? createDefaultValue(param)}
+          onChange={(next) => {
+            setEstimate(null)
+            setValues(prev => {
+              const updated = prev.length === constructorFragment.inputs.length
+                ? [...prev]
+                : constructorFragment.inputs.map(createDefaultValue)
+              updated[index] = next
+              return updated
+            })
+          }}
+        />
+      ))}
+
+      {constructorFragment?.payable && (
+        <div className="form-row">
+          <input
+            type="text"
+            className="form-input"
+            placeholder={`附带金额 (${network.symbol}, 可选)`}
+            value={payableValue}
+            onChange={(e) => setPayableValue(e.target.value)}
+          />
+        </div>
+      )}
+
+      {estimate && (
+        <div style={{
+          background: 'rgba(66, 153, 225, 0.1)',
+          border: '1px solid rgba(66, 153, 225, 0.2)',
+          borderRadius: '8px',
+          padding: '15px',
+          marginBottom: '20px'
+        }}>
+          <p><strong>预计 Gas:</strong> {estimate.gasLimit.toString()}</p>
+          <p><strong>预计费用:</strong> {estimate.cost} {network.symbol}</p>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '12px' }}>
+        <button
+          className="submit-btn"
+          onClick={estimateDeployment}
+          disabled={isEstimating || !account}
+          style={{ flex: '1', background: 'linear-gradient(135deg, #4299e1 0%, #3182ce 100%)' }}
+        >
+          {isEstimating ? '估算中...' : '估算Gas'}
+        </button>
+        <button
+          className="submit-btn"
+          onClick={deployContract}
+          disabled={isDeploying || !account}
+          style={{ flex: '2' }}
+        >
+          {isDeploying ? '部署中...' : '部署合约'}
+        </button>
+      </div>
+
+      {isVisible && (
+        <div style={{ marginTop: '20px' }}>
+          <TransactionProgress
+            steps={steps}
+            onClose={hideProgress}
+            provider={provider}
+            onComplete={handleComplete}
+          />
+        </div>
+      )}
+    </>
+  )
+}
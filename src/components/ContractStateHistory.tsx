@@ -0,0 +1,222 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { decodeOutputs, type DecodedOutput } from '../utils/abi'
+import { getBlockHeader } from '../utils/blockCache'
+
+interface ContractStateHistoryProps {
+  provider: ethers.BrowserProvider | null
+  contractAddress: string
+  contractABI: ethers.InterfaceAbi
+  // 无参数的只读函数，才能在任意区块上直接读取
+  fragments: ethers.FunctionFragment[]
+  // 合约事件所在的区块号，作为默认的时间线节点
+  eventBlocks: number[]
+}
+
+interface StateSnapshot {
+  blockNumber: number
+  timestamp?: number
+  outputs: DecodedOutput[] | null
+  error?: string
+}
+
+interface OutputChange {
+  name: string
+  previous: string
+  current: string
+}
+
+// 与前一个快照比较，列出发生变化的返回值
+function diffOutputs(previous: DecodedOutput[] | null, current: DecodedOutput[] | null): OutputChange[] {
+  if (!previous || !current) return []
+  return current
+    .map((output, index) => ({
+      name: output.name,
+      previous: previous[index]?.value ?? '',
+      current: output.value
+    }))
+    .filter(change => change.previous !== change.current)
+}
+
+// 在指定区块读取状态，单个区块失败（例如节点不保存历史状态）不影响其他区块
+async function readAtBlock(
+  contract: ethers.Contract,
+  fragment: ethers.FunctionFragment,
+  provider: ethers.Provider,
+  blockNumber: number
+): Promise<StateSnapshot> {
+  const [result, block] = await Promise.all([
+    contract.getFunction(fragment).staticCallResult({ blockTag: blockNumber })
+      .then(value => ({ value, error: undefined }))
+      .catch((error: unknown) => ({
+        value: null,
+        error: error instanceof Error ? error.message : '读取失败'
+      })),
+    getBlockHeader(provider, blockNumber).catch(() => null)
+  ])
+  return {
+    blockNumber,
+    timestamp: block?.timestamp,
+    outputs: result.value ? decodeOutputs(fragment, result.value) : null,
+    error: result.error
+  }
+}
+
+export function ContractStateHistory({
+  provider,
+  contractAddress,
+  contractABI,
+  fragments,
+  eventBlocks
+}: ContractStateHistoryProps) {
+  const defaultFragment = fragments.find(f => f.name === 'getInfo') || fragments[0]
+  const [selector, setSelector] = useState<string>(defaultFragment?.selector || '')
+  const [blockInput, setBlockInput] = useState<string>('')
+  const [snapshots, setSnapshots] = useState<StateSnapshot[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [loadError, setLoadError] = useState<string>('')
+
+  const fragment = fragments.find(f => f.selector === selector) || defaultFragment
+
+  const loadTimeline = async (blockNumbers: number[]) => {
+    if (!provider || !contractAddress || !fragment) return
+
+    const unique = [...new Set(blockNumbers)].sort((a, b) => a - b)
+    if (unique.length === 0) {
+      setLoadError('没有可查询的区块，请先加载合约日志或输入区块号')
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      setLoadError('')
+      console.log(`在 ${unique.length} 个区块上读取 ${fragment.name}()`)
+      const contract = new ethers.Contract(contractAddress, contractABI, provider)
+      setSnapshots(await Promise.all(
+        unique.map(blockNumber => readAtBlock(contract, fragment, provider, blockNumber))
+      ))
+    } catch (error) {
+      console.error('读取历史状态失败:', error)
+      setLoadError(error instanceof Error ? error.message : '未知错误')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const addBlock = async () => {
+    const value = blockInput.trim()
+    if (!/^\d+$/.test(value)) {
+      setLoadError('请输入有效的区块号')
+      return
+    }
+    await loadTimeline([...snapshots.map(s => s.blockNumber), parseInt(value)])
+    setBlockInput('')
+  }
+
+  if (!fragment) {
+    return (
+      <div className="empty-state">
+        <p>没有可查询历史状态的函数</p>
+        <p>只支持无参数的只读函数</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="form-row">
+        <select
+          className="form-input"
+          value={fragment.selector}
+          onChange={(e) => {
+            setSelector(e.target.value)
+            setSnapshots([])
+          }}
+        >
+          {fragments.map((f) => (
+            <option key={f.selector} value={f.selector}>
+              {f.format('sighash')}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="search-input-group" style={{ marginBottom: '12px' }}>
+        <input
+          type="number"
+          min="0"
+          className="search-input"
+          placeholder="区块号"
+          value={blockInput}
+          onChange={(e) => setBlockInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addBlock()
+          }}
+        />
+        <button className="search-btn" onClick={addBlock} disabled={isLoading || !provider}>
+          添加区块
+        </button>
+      </div>
+
+      <button
+        className="submit-btn"
+        onClick={() => loadTimeline(eventBlocks)}
+        disabled={isLoading || !provider || !contractAddress}
+        style={{ marginBottom: '20px' }}
+      >
+        {isLoading ? '读取中...' : `按事件区块生成时间线 (${new Set(eventBlocks).size})`}
+      </button>
+
+      {loadError && (
+        <div style={{ color: '#f56565', fontSize: '13px', marginBottom: '12px' }}>⚠️ {loadError}</div>
+      )}
+
+      {snapshots.map((snapshot, index) => {
+        const changes = index > 0 ? diffOutputs(snapshots[index - 1].outputs, snapshot.outputs) : []
+        return (
+          <div key={snapshot.blockNumber} className="record-item">
+            <div className="record-header" style={{ marginBottom: '10px' }}>
+              <code style={{ fontFamily: "'Courier New', monospace", fontWeight: 600, color: '#4299e1' }}>
+                #{snapshot.blockNumber}
+              </code>
+              <span className="timestamp">
+                {snapshot.timestamp ? new Date(snapshot.timestamp * 1000).toLocaleString() : '未知时间'}
+              </span>
+            </div>
+
+            {snapshot.error ? (
+              <div style={{ color: '#f56565', fontSize: '13px' }}>
+                ⚠️ {snapshot.error}（节点可能不支持历史状态查询）
+              </div>
+            ) : (
+              <div className="record-details">
+                {snapshot.outputs?.map((output) => (
+                  <p key={output.name}>
+                    <strong>{output.name}</strong> ({output.type}): {output.value}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {index > 0 && !snapshot.error && (
+              <div style={{ marginTop: '10px', fontSize: '13px' }}>
+                {changes.length === 0 ? (
+                  <span style={{ color: '#718096' }}>与上一区块相比无变化</span>
+                ) : (
+                  changes.map((change) => (
+                    <p key={change.name} style={{ margin: '4px 0' }}>
+                      <strong>{change.name}:</strong>{' '}
+                      <span style={{ color: '#f56565', textDecoration: 'line-through' }}>{change.previous}</span>
+                      {' → '}
+                      <span style={{ color: '#48bb78', fontWeight: 600 }}>{change.current}</span>
+                    </p>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,323 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { ContractDeploy } from './ContractDeploy'
+import { useNotification } from '../hooks/useNotification'
+import { resolveContractAddress, type StoredContract } from '../hooks/useContractRegistry'
+import { parseContractArtifact, type ParsedArtifact } from '../utils/artifacts'
+
+interface Network {
+  name: string
+  chainId: string
+  rpcUrl: string
+  symbol: string
+  decimals: number
+}
+
+interface ContractWorkspaceProps {
+  account: string
+  provider: ethers.BrowserProvider | null
+  signer: ethers.JsonRpcSigner | null
+  network: Network
+  networks: Network[]
+  contracts: StoredContract[]
+  selectedContract: StoredContract | undefined
+  onAddContract: (artifact: ParsedArtifact, addresses?: Record<string, string>) => StoredContract
+  onSetAddress: (id: string, chainId: string, address: string) => void
+  onRemoveContract: (id: string) => void
+  onSelectContract: (id: string) => void
+}
+
+const FORMAT_LABELS: Record<StoredContract['format'], string> = {
+  truffle: 'Truffle',
+  hardhat: 'Hardhat',
+  foundry: 'Foundry',
+  abi: 'ABI'
+}
+
+export function ContractWorkspace({
+  account,
+  provider,
+  signer,
+  network,
+  networks,
+  contracts,
+  selectedContract,
+  onAddContract,
+  onSetAddress,
+  onRemoveContract,
+  onSelectContract
+}: ContractWorkspaceProps) {
+  const { showError, showSuccess } = useNotification()
+  const [artifactText, setArtifactText] = useState<string>('')
+  const [contractName, setContractName] = useState<string>('')
+  const [importAddress, setImportAddress] = useState<string>('')
+  const [isDragging, setIsDragging] = useState<boolean>(false)
+  const [addressDrafts, setAddressDrafts] = useState<Record<string, string>>({})
+
+  // 实时解析粘贴的内容，用于预览
+  let preview: ParsedArtifact | null = null
+  let parseError = ''
+  if (artifactText.trim()) {
+    try {
+      preview = parseContractArtifact(artifactText, contractName.trim() || undefined)
+    } catch (error) {
+      parseError = error instanceof Error ? error.message : '解析失败'
+    }
+  }
+
+  const networkName = (chainId: string) =>
+    networks.find(n => n.chainId === chainId)?.name || `Chain ${parseInt(chainId, 16)}`
+
+  const readFile = async (file: File) => {
+    try {
+      const text = await file.text()
+      setArtifactText(text)
+      if (!contractName) {
+        setContractName(file.name.replace(/\.json$/i, ''))
+      }
+    } catch (error) {
+      console.error('读取文件失败:', error)
+      showError('读取文件失败')
+    }
+  }
+
+  const importArtifact = () => {
+    if (!preview) {
+      showError(parseError || '请粘贴或拖入合约产物 JSON')
+      return
+    }
+
+    const address = importAddress.trim()
+    if (address && !ethers.isAddress(address)) {
+      showError('请输入有效的合约地址')
+      return
+    }
+
+    const artifact = contractName.trim() ? { ...preview, name: contractName.trim() } : preview
+    const contract = onAddContract(
+      artifact,
+      address ? { [network.chainId]: ethers.getAddress(address) } : {}
+    )
+    onSelectContract(contract.id)
+
+    setArtifactText('')
+    setContractName('')
+    setImportAddress('')
+    showSuccess(`合约 ${contract.name} 已导入`)
+  }
+
+  const saveAddress = (contract: StoredContract) => {
+    const draft = addressDrafts[contract.id]
+    if (draft === undefined) return
+
+    const address = draft.trim()
+    if (address && !ethers.isAddress(address)) {
+      showError('请输入有效的合约地址')
+      return
+    }
+
+    onSetAddress(contract.id, network.chainId, address ? ethers.getAddress(address) : '')
+    setAddressDrafts(prev => {
+      const next = { ...prev }
+      delete next[contract.id]
+      return next
+    })
+    showSuccess(`已更新 ${contract.name} 在 ${network.name} 上的地址`)
+  }
+
+  return (
+    <div className="unified-layout">
+      {/* 导入区域 */}
+      <div className="transfer-section">
+        <h2>导入合约</h2>
+
+        <div className="form-row">
+          <input
+            type="text"
+            className="form-input"
+            placeholder="合约名称（可选，默认读取 contractName）"
+            value={contractName}
+            onChange={(e) => setContractName(e.target.value)}
+          />
+        </div>
+
+        <div className="form-row">
+          <textarea
+            className="form-textarea"
+            placeholder="粘贴 Truffle / Hardhat / Foundry 产物 JSON 或 ABI 数组，也可以直接拖入 .json 文件"
+            value={artifactText}
+            onChange={(e) => setArtifactText(e.target.value)}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault()
+              setIsDragging(false)
+              const file = e.dataTransfer.files[0]
+              if (file) readFile(file)
+            }}
+            style={isDragging ? { borderColor: 'rgba(102, 126, 234, 0.8)', background: 'rgba(102, 126, 234, 0.05)' } : undefined}
+          />
+        </div>
+
+        <div className="form-row">
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) readFile(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+
+        <div className="form-row">
+          <input
+            type="text"
+            className="form-input"
+            placeholder={`${network.name} 上的部署地址（可选，0x...）`}
+            value={importAddress}
+            onChange={(e) => setImportAddress(e.target.value)}
+          />
+        </div>
+
+        {parseError && (
+          <div style={{ color: '#f56565', fontSize: '13px', marginBottom: '12px' }}>⚠️ {parseError}</div>
+        )}
+
+        {preview && (
+          <div style={{
+            background: 'rgba(102, 126, 234, 0.1)',
+            border: '1px solid rgba(102, 126, 234, 0.2)',
+            borderRadius: '8px',
+            padding: '15px',
+            marginBottom: '20px'
+          }}>
+            <p><strong>名称:</strong> {contractName.trim() || preview.name}</p>
+            <p><strong>格式:</strong> {FORMAT_LABELS[preview.format]}</p>
+            <p><strong>ABI 条目:</strong> {preview.abi.length}</p>
+            <p><strong>字节码:</strong> {preview.bytecode ? '包含' : '无'}</p>
+            <p>
+              <strong>已部署网络:</strong>{' '}
+              {Object.keys(preview.addresses).length === 0
+                ? '无'
+                : Object.keys(preview.addresses).map(networkName).join(', ')}
+            </p>
+          </div>
+        )}
+
+        <button className="submit-btn" onClick={importArtifact} disabled={!preview}>
+          导入合约
+        </button>
+      </div>
+
+      {/* 部署区域 */}
+      <div className="transfer-section" style={{ minHeight: 'auto' }}>
+        <h2>部署合约</h2>
+        <ContractDeploy
+          account={account}
+          provider={provider}
+          signer={signer}
+          network={network}
+          contracts={contracts}
+          onDeployed={(id, address) => {
+            onSetAddress(id, network.chainId, address)
+            onSelectContract(id)
+          }}
+        />
+      </div>
+
+      {/* 已保存的合约 */}
+      <div className="records-section">
+        <h2>已保存的合约</h2>
+
+        <div className="records-list">
+          {contracts.map((contract) => {
+            const currentAddress = contract.addresses[network.chainId] || ''
+            const draft = addressDrafts[contract.id]
+            const isSelected = selectedContract?.id === contract.id
+            return (
+              <div key={contract.id} className="record-item">
+                <div className="record-header">
+                  <div>
+                    <div style={{
+                      fontSize: '10px',
+                      color: '#667eea',
+                      background: 'rgba(102, 126, 234, 0.1)',
+                      padding: '2px 6px',
+                      borderRadius: '4px',
+                      marginBottom: '5px',
+                      display: 'inline-block'
+                    }}>
+                      {FORMAT_LABELS[contract.format]}
+                      {contract.bytecode ? ' · 可部署' : ''}
+                    </div>
+                    <div style={{ fontWeight: 600, color: '#2d3748' }}>
+                      {contract.name} {isSelected && '✓'}
+                    </div>
+                  </div>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                      className="search-btn"
+                      style={{ fontSize: '12px', padding: '8px 12px' }}
+                      onClick={() => onSelectContract(contract.id)}
+                      disabled={isSelected}
+                    >
+                      使用
+                    </button>
+                    {contract.createdAt > 0 && (
+                      <button
+                        className="clear-search-btn"
+                        style={{ fontSize: '12px', padding: '8px 12px' }}
+                        onClick={() => {
+                          if (confirm(`确定删除合约 ${contract.name} 吗？`)) {
+                            onRemoveContract(contract.id)
+                          }
+                        }}
+                      >
+                        删除
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="record-details">
+                  <p>
+                    <strong>当前使用地址:</strong>{' '}
+                    {resolveContractAddress(contract, network.chainId) || '未设置'}
+                  </p>
+                  {Object.entries(contract.addresses).map(([chainId, address]) => (
+                    <p key={chainId}>
+                      <strong>{networkName(chainId)}:</strong> {address}
+                    </p>
+                  ))}
+                  <div className="search-input-group" style={{ marginTop: '12px' }}>
+                    <input
+                      type="text"
+                      className="search-input"
+                      placeholder={`${network.name} 上的地址 (0x...)`}
+                      value={draft ?? currentAddress}
+                      onChange={(e) =>
+                        setAddressDrafts(prev => ({ ...prev, [contract.id]: e.target.value }))
+                      }
+                    />
+                    <button
+                      className="search-btn"
+                      onClick={() => saveAddress(contract)}
+                      disabled={draft === undefined}
+                    >
+                      保存
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
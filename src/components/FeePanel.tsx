@@ -0,0 +1,144 @@
+import { ethers } from 'ethers'
+import type { FeeSettings } from '../hooks/useFeeSettings'
+import { formatGwei, maxGasPrice, type FeePreset } from '../utils/fees'
+
+interface FeePanelProps {
+  fees: FeeSettings
+  symbol: string
+  // 已知的Gas用量（例如普通转账为21000），用于估算总费用
+  estimatedGas?: bigint
+  // 随交易发送的原生币数量，计入总费用
+  value?: bigint
+}
+
+const PRESET_LABELS: Record<FeePreset, string> = {
+  slow: '🐢 慢',
+  normal: '🚶 标准',
+  fast: '🚀 快',
+  custom: '⚙️ 自定义'
+}
+
+export function FeePanel({ fees, symbol, estimatedGas, value }: FeePanelProps) {
+  const {
+    suggestion,
+    supports1559,
+    preset,
+    setPreset,
+    custom,
+    setCustom,
+    gasLimit,
+    setGasLimit,
+    values,
+    inputError,
+    isLoading,
+    loadError,
+    refresh
+  } = fees
+
+  const gasUnits = gasLimit.trim() && !inputError ? BigInt(gasLimit.trim()) : estimatedGas
+  const maxFee = values && gasUnits ? maxGasPrice(values) * gasUnits : null
+
+  return (
+    <div style={{
+      background: 'rgba(66, 153, 225, 0.08)',
+      border: '1px solid rgba(66, 153, 225, 0.2)',
+      borderRadius: '8px',
+      padding: '15px',
+      marginBottom: '20px',
+      fontSize: '13px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <strong>⛽ Gas 费用 {supports1559 ? '(EIP-1559)' : '(Legacy)'}</strong>
+        <button
+          className="search-btn"
+          onClick={refresh}
+          disabled={isLoading}
+          style={{ fontSize: '12px', padding: '6px 10px' }}
+        >
+          {isLoading ? '加载中...' : '🔄'}
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '10px', flexWrap: 'wrap' }}>
+        {(['slow', 'normal', 'fast', 'custom'] as const).map((option) => (
+          <button
+            key={option}
+            className={`token-btn ${preset === option ? 'active' : ''}`}
+            onClick={() => setPreset(option)}
+            title={
+              option !== 'custom' && suggestion
+                ? `${formatGwei(maxGasPrice(suggestion.presets[option]))} gwei`
+                : undefined
+            }
+          >
+            {PRESET_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {preset === 'custom' && (
+        <div className="search-input-group" style={{ marginBottom: '10px' }}>
+          {supports1559 ? (
+            <>
+              <input
+                type="text"
+                className="search-input"
+                placeholder="Max Fee (gwei)"
+                value={custom.maxFeePerGas}
+                onChange={(e) => setCustom({ ...custom, maxFeePerGas: e.target.value })}
+              />
+              <input
+                type="text"
+                className="search-input"
+                placeholder="Priority Fee (gwei)"
+                value={custom.maxPriorityFeePerGas}
+                onChange={(e) => setCustom({ ...custom, maxPriorityFeePerGas: e.target.value })}
+              />
+            </>
+          ) : (
+            <input
+              type="text"
+              className="search-input"
+              placeholder="Gas Price (gwei)"
+              value={custom.gasPrice}
+              onChange={(e) => setCustom({ ...custom, gasPrice: e.target.value })}
+            />
+          )}
+        </div>
+      )}
+
+      <div className="search-input-group" style={{ marginBottom: '10px' }}>
+        <input
+          type="text"
+          className="search-input"
+          placeholder={`Gas Limit（可选，默认自动估算${estimatedGas ? ` ${estimatedGas}` : ''}）`}
+          value={gasLimit}
+          onChange={(e) => setGasLimit(e.target.value)}
+        />
+      </div>
+
+      {supports1559 && suggestion?.baseFee != null && (
+        <p style={{ margin: '4px 0' }}>Base Fee: {formatGwei(suggestion.baseFee)} gwei</p>
+      )}
+      {values && (
+        supports1559 ? (
+          <p style={{ margin: '4px 0' }}>
+            Max Fee: {formatGwei(values.maxFeePerGas)} gwei · Priority Fee: {formatGwei(values.maxPriorityFeePerGas)} gwei
+          </p>
+        ) : (
+          <p style={{ margin: '4px 0' }}>Gas Price: {formatGwei(values.gasPrice)} gwei</p>
+        )
+      )}
+      <p style={{ margin: '4px 0' }}>
+        <strong>预计总费用:</strong>{' '}
+        {maxFee !== null
+          ? `≤ ${ethers.formatEther(maxFee + (value ?? 0n))} ${symbol}${value ? '（含转账金额）' : ''}`
+          : '提交时根据模拟结果估算'}
+      </p>
+
+      {(inputError || loadError) && (
+        <div style={{ color: '#f56565', marginTop: '6px' }}>⚠️ {inputError || loadError}</div>
+      )}
+    </div>
+  )
+}
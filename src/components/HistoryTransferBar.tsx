@@ -0,0 +1,102 @@
+import { useRef, useState } from 'react'
+import { useNotification } from '../hooks/useNotification'
+import { addHistoryRecords, type HistoryRecord } from '../utils/historyRepository'
+import { exportHistoryCsv, exportHistoryJson, parseHistoryImport } from '../utils/historyTransfer'
+import { downloadTextFile } from '../utils/csv'
+
+interface NetworkInfo {
+  name: string
+  chainId: string
+  decimals: number
+}
+
+interface HistoryTransferBarProps {
+  // 当前筛选后的记录，按原样导出
+  records: HistoryRecord[]
+  networks: NetworkInfo[]
+  // 导出文件名前缀，例如 native-history
+  fileName: string
+}
+
+export function HistoryTransferBar({ records, networks, fileName }: HistoryTransferBarProps) {
+  const { showError, showSuccess, showWarning } = useNotification()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const exportFile = (format: 'csv' | 'json') => {
+    if (records.length === 0) {
+      showWarning('没有可导出的记录')
+      return
+    }
+    const date = new Date().toISOString().slice(0, 10)
+    if (format === 'csv') {
+      // 带 BOM，表格软件才能正确识别中文网络名和留言
+      downloadTextFile(`${fileName}-${date}.csv`, '\uFEFF' + exportHistoryCsv(records, networks), 'text/csv;charset=utf-8')
+    } else {
+      downloadTextFile(`${fileName}-${date}.json`, exportHistoryJson(records, networks), 'application/json')
+    }
+  }
+
+  const importFile = async (file: File) => {
+    setIsImporting(true)
+    try {
+      const { records: imported, errors } = parseHistoryImport(await file.text(), file.name)
+      const added = imported.length > 0 ? await addHistoryRecords(imported) : 0
+      const skipped = imported.length - added
+      showSuccess(`导入完成：新增 ${added} 条，已存在跳过 ${skipped} 条`)
+      if (errors.length > 0) {
+        showWarning(`${errors.length} 条记录无法导入:\n` + errors.slice(0, 5).join('\n') + (errors.length > 5 ? '\n...' : ''))
+      }
+    } catch (error) {
+      console.error('导入交易记录失败:', error)
+      showError('导入失败: ' + (error instanceof Error ? error.message : '未知错误'))
+    } finally {
+      setIsImporting(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '15px' }}>
+      <button
+        className="search-btn"
+        onClick={() => exportFile('csv')}
+        title="导出当前筛选的记录为 CSV"
+        style={{ fontSize: '12px', padding: '8px 12px' }}
+      >
+        📄 导出 CSV
+      </button>
+      <button
+        className="search-btn"
+        onClick={() => exportFile('json')}
+        title="导出当前筛选的记录为 JSON"
+        style={{ fontSize: '12px', padding: '8px 12px' }}
+      >
+        🧾 导出 JSON
+      </button>
+      <button
+        className="search-btn"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        title="导入之前导出的 CSV 或 JSON，按交易哈希和代币去重合并"
+        style={{ fontSize: '12px', padding: '8px 12px' }}
+      >
+        {isImporting ? '⏳ 导入中...' : '📥 导入'}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) {
+            importFile(file)
+          }
+        }}
+      />
+    </div>
+  )
+}
@@ -3,6 +3,26 @@ import { ethers } from 'ethers'
 import { TransactionProgress, type TransactionStep } from './TransactionProgress'
 import { useTransactionProgress } from '../hooks/useTransactionProgress'
 import { useNotification } from '../hooks/useNotification'
+import { useTransactionPreview } from '../hooks/useTransactionPreview'
+import { TransactionPreview } from './TransactionPreview'
+import { FeePanel } from './FeePanel'
+import { BatchPayout } from './BatchPayout'
+import { HistoryTransferBar } from './HistoryTransferBar'
+import { useFeeSettings } from '../hooks/useFeeSettings'
+import { describeTransactionError, simulateTransaction, type SimulationResult } from '../utils/simulation'
+import { trackTransaction } from '../utils/nonceQueue'
+import { replaceTransaction, waitForOutcome, type ReplacementMode } from '../utils/replacement'
+import { useHistory } from '../hooks/useHistory'
+import { getBlockHeader } from '../utils/blockCache'
+import {
+  NATIVE_TOKEN,
+  addHistoryRecords,
+  getHistoryRecord,
+  recordFee,
+  updateHistoryRecord,
+  type HistoryRecord,
+  type HistoryStatus
+} from '../utils/historyRepository'
 
 interface Network {
   name: string
@@ -12,23 +32,24 @@ interface Network {
   decimals: number
 }
 
-interface Transaction {
-  hash: string
-  from: string
-  to: string
-  value: string
-  data: string
-  timestamp: number
-  source?: 'blockchain' | 'local'
+const STATUS_LABELS: Record<HistoryStatus, string> = {
+  pending: '⏳ 待确认',
+  confirmed: '✅ 已确认',
+  failed: '❌ 失败',
+  replaced: '🔁 已被替换',
+  cancelled: '🚫 已取消',
+  dropped: '🕳️ 已丢弃'
 }
 
+// 不带数据的原生币转账固定消耗的Gas
+const PLAIN_TRANSFER_GAS = 21000n
+
 interface NativeTransferProps {
   account: string
   provider: ethers.BrowserProvider | null
   signer: ethers.JsonRpcSigner | null
   network: Network
-  transactions: Transaction[]
-  onTransactionUpdate: (transactions: Transaction[]) => void
+  networks: Network[]
   onBalanceUpdate: () => void
 }
 
@@ -37,8 +58,7 @@ export function NativeTransfer({
   provider, 
   signer, 
   network, 
-  transactions, 
-  onTransactionUpdate,
+  networks,
   onBalanceUpdate
 }: NativeTransferProps) {
   const { showError, showSuccess, showWarning } = useNotification()
@@ -50,14 +70,30 @@ export function NativeTransfer({
   const [searchTerm, setSearchTerm] = useState<string>('')
   const [searchInput, setSearchInput] = useState<string>('')
   const [isSearching, setIsSearching] = useState<boolean>(false)
+  const [replacingHash, setReplacingHash] = useState<string>('')
+  const [batchMode, setBatchMode] = useState<boolean>(false)
+  const [showAllChains, setShowAllChains] = useState<boolean>(false)
   
   // 交易进度条状态
   const { isVisible, steps, showProgress, hideProgress, updateStep, handleComplete } = useTransactionProgress(() => {
     // 完成后自动刷新余额和交易记录
     onBalanceUpdate();
   })
+  const { preview, requestConfirmation, confirmPreview, cancelPreview } = useTransactionPreview()
+  const fees = useFeeSettings(provider)
+  // 默认只显示当前账户在当前网络上的记录
+  const { records: transactions } = useHistory({
+    type: 'native',
+    account: account || undefined,
+    chainId: showAllChains ? undefined : network.chainId
+  })
+
+  const findNetwork = (chainId: string) => networks.find(net => net.chainId === chainId)
+  // 迁移的旧记录没有网络信息
+  const getNetworkName = (chainId: string) =>
+    chainId ? findNetwork(chainId)?.name ?? `Chain ${parseInt(chainId, 16)}` : '未知网络'
 
-  const getTransactionDetails = async (txHash: string): Promise<Transaction | null> => {
+  const getTransactionDetails = async (txHash: string): Promise<HistoryRecord | null> => {
     try {
       console.log('正在查询交易详情:', txHash)
       
@@ -78,19 +114,20 @@ export function NativeTransfer({
       
       const rpcProvider = infuraUrl ? new ethers.JsonRpcProvider(infuraUrl) : provider!
       
-      const tx = await rpcProvider.getTransaction(txHash)
+      const [tx, receipt] = await Promise.all([
+        rpcProvider.getTransaction(txHash),
+        rpcProvider.getTransactionReceipt(txHash)
+      ])
       if (!tx) {
         console.log('交易未找到或未确认')
         return null
       }
-      
-      const receipt = await rpcProvider.getTransactionReceipt(txHash)
       if (!receipt) {
         console.log('交易尚未确认')
         return null
       }
       
-      const block = await rpcProvider.getBlock(receipt.blockNumber)
+      const block = await getBlockHeader(rpcProvider, receipt.blockNumber)
       
       let dataText = ''
       if (tx.data && tx.data !== '0x') {
@@ -101,14 +138,20 @@ export function NativeTransfer({
         }
       }
       
-      const transaction: Transaction = {
+      const transaction: HistoryRecord = {
+        type: 'native',
         hash: tx.hash,
+        chainId: network.chainId,
+        account,
         from: tx.from || '',
         to: tx.to || '',
-        value: ethers.formatEther(tx.value || 0),
+        amount: ethers.formatEther(tx.value || 0),
+        token: NATIVE_TOKEN,
+        decimals: network.decimals,
         data: dataText,
         timestamp: (block?.timestamp || Date.now() / 1000) * 1000,
-        source: 'blockchain'
+        source: 'blockchain',
+        status: receipt.status === 1 ? 'confirmed' : 'failed'
       }
       
       console.log('交易详情查询成功:', transaction)
@@ -119,8 +162,49 @@ export function NativeTransfer({
     }
   }
 
+  const setTransactionStatus = (hash: string, status: HistoryStatus, replacedBy?: string) =>
+    updateHistoryRecord(hash, NATIVE_TOKEN, replacedBy ? { status, replacedBy } : { status })
+
+  // 用相同 nonce 加速或取消待确认的交易
+  const replacePendingTransaction = async (record: HistoryRecord, mode: ReplacementMode) => {
+    if (!signer || !provider) {
+      showError('请先连接钱包')
+      return
+    }
+
+    const actionLabel = mode === 'cancel' ? '取消' : '加速'
+    try {
+      setReplacingHash(record.hash)
+      const replacement = await trackTransaction(
+        { chainId: network.chainId, account, label: `${actionLabel} ${record.hash.slice(0, 10)}...` },
+        () => replaceTransaction(signer, provider, record.hash, mode)
+      )
+      showSuccess(`${actionLabel}交易已提交，新交易哈希: ${replacement.hash}`)
+
+      await updateHistoryRecord(record.hash, NATIVE_TOKEN, { replacedBy: replacement.hash })
+      // 加速后的交易内容不变，作为新记录显示；取消交易只是向自己转账 0，不单独记录
+      if (mode === 'speedup') {
+        await addHistoryRecords([
+          { ...record, hash: replacement.hash, timestamp: Date.now(), source: 'local', status: 'pending', replacedBy: undefined }
+        ])
+      }
+
+      const outcome = await waitForOutcome(replacement)
+      await setTransactionStatus(record.hash, mode === 'cancel' ? 'cancelled' : 'replaced', replacement.hash)
+      if (mode === 'speedup') {
+        await setTransactionStatus(replacement.hash, outcome.status)
+      }
+      onBalanceUpdate()
+    } catch (error) {
+      console.error(`${actionLabel}交易失败:`, error)
+      showError(`${actionLabel}交易失败: ` + describeTransactionError(error))
+    } finally {
+      setReplacingHash('')
+    }
+  }
+
   const sendTransaction = async () => {
-    if (!signer || !toAddress || !amount) {
+    if (!signer || !provider || !toAddress || !amount) {
       showError('请填写完整信息')
       return
     }
@@ -130,6 +214,11 @@ export function NativeTransfer({
       return
     }
 
+    if (fees.inputError) {
+      showError(fees.inputError)
+      return
+    }
+
     try {
       setIsLoading(true)
       
@@ -140,6 +229,11 @@ export function NativeTransfer({
           label: '验证交易参数',
           status: 'loading'
         },
+        {
+          id: 'simulate',
+          label: '模拟执行交易',
+          status: 'pending'
+        },
         {
           id: 'submit',
           label: '提交交易到网络',
@@ -156,10 +250,11 @@ export function NativeTransfer({
       
       const txRequest: ethers.TransactionRequest = {
         to: toAddress,
-        value: ethers.parseEther(amount)
+        value: ethers.parseEther(amount),
+        ...fees.getOverrides()
       }
       
-      const code = await provider!.getCode(toAddress)
+      const code = await provider.getCode(toAddress)
       const isContract = code !== '0x'
       
       console.log('地址检查:', {
@@ -175,12 +270,14 @@ export function NativeTransfer({
           const confirmSend = confirm('目标地址是合约地址，发送带数据的交易可能会调用合约函数。确定要继续吗？')
           if (!confirmSend) {
             setIsLoading(false)
+            hideProgress()
             return
           }
         } else {
           const confirmSend = confirm('⚠️ 即将发送带数据的交易\n\n如果目标地址是您钱包中的其他账户，MetaMask可能会阻止此交易。\n\n是否继续？')
           if (!confirmSend) {
             setIsLoading(false)
+            hideProgress()
             return
           }
         }
@@ -193,6 +290,7 @@ export function NativeTransfer({
           dataText: message,
           network: network.name,
           chainId: network.chainId,
+          account,
           isContract
         })
       } else {
@@ -201,39 +299,74 @@ export function NativeTransfer({
           value: amount + ' ' + network.symbol,
           network: network.name,
           chainId: network.chainId,
+          account,
           isContract
         })
       }
       
-      // 验证完成
+      // 验证完成，发送前先在 pending 状态上模拟
       updateStep('validation', { status: 'success' })
+      updateStep('simulate', { status: 'loading' })
+
+      let simulation: SimulationResult
+      try {
+        simulation = await simulateTransaction(provider, { ...txRequest, from: account })
+      } catch (simulationError) {
+        const reason = simulationError instanceof Error ? simulationError.message : '未知错误'
+        updateStep('simulate', { status: 'error', error: reason })
+        showError('交易模拟失败: ' + reason)
+        return
+      }
+      updateStep('simulate', { status: 'success' })
+
+      const confirmed = await requestConfirmation({
+        title: '转账预览',
+        details: [
+          { label: '收款账户', value: toAddress },
+          { label: '目标类型', value: isContract ? '合约地址' : '外部账户' },
+          { label: '转账金额', value: `${amount} ${network.symbol}` },
+          ...(txRequest.data ? [{ label: '数据留言', value: message }] : []),
+          { label: '预期结果', value: '模拟执行成功' }
+        ],
+        gasLimit: simulation.gasLimit,
+        fee: simulation.fee,
+        value: ethers.parseEther(amount)
+      })
+      if (!confirmed) {
+        hideProgress()
+        return
+      }
+
       updateStep('submit', { status: 'loading' })
 
-      const tx = await signer.sendTransaction(txRequest)
+      const tx = await trackTransaction(
+        { chainId: network.chainId, account, label: `转账 ${amount} ${network.symbol}` },
+        () => signer.sendTransaction(txRequest)
+      )
       console.log('交易已提交:', tx.hash)
       
       // 提交成功，开始确认
       updateStep('submit', { status: 'success', txHash: tx.hash })
       updateStep('confirm', { status: 'loading', txHash: tx.hash })
 
-      const initialTransaction: Transaction = {
+      const initialTransaction: HistoryRecord = {
+        type: 'native',
         hash: tx.hash,
+        chainId: network.chainId,
+        account,
         from: account,
         to: toAddress,
-        value: amount,
+        amount,
+        token: NATIVE_TOKEN,
+        decimals: network.decimals,
         data: useData && message.trim() ? message : '',
         timestamp: Date.now(),
-        source: 'local'
+        source: 'local',
+        status: 'pending'
       }
 
-      const updatedTransactions = [initialTransaction, ...transactions]
-      
-      // 立即更新状态和本地存储
-      onTransactionUpdate(updatedTransactions)
-      localStorage.setItem('datachain_transactions', JSON.stringify(updatedTransactions))
-      
-      // 强制触发重新渲染 - 添加调试日志
-      console.log('交易记录已添加，当前记录数量:', updatedTransactions.length)
+      // 立即写入历史记录，列表通过查询自动刷新
+      await addHistoryRecords([initialTransaction])
       console.log('新增交易记录:', initialTransaction)
       
       // 稍后清空表单，确保状态更新完成
@@ -252,8 +385,18 @@ export function NativeTransfer({
       // 异步等待确认，不阻塞UI，确保本地记录已经显示
       setTimeout(async () => {
         try {
-          // 等待交易确认
-          await tx.wait()
+          // 等待交易确认，原交易被加速或取消时不再一直等待
+          const outcome = await waitForOutcome(tx)
+          if (outcome.status === 'replaced' || outcome.status === 'cancelled') {
+            updateStep('confirm', { status: outcome.status, txHash: outcome.replacementHash })
+            await setTransactionStatus(tx.hash, outcome.status, outcome.replacementHash)
+            return
+          }
+          if (outcome.status === 'failed') {
+            updateStep('confirm', { status: 'error', error: '交易执行失败' })
+            await setTransactionStatus(tx.hash, 'failed')
+            return
+          }
           
           // 确认成功
           updateStep('confirm', { status: 'success' })
@@ -262,15 +405,10 @@ export function NativeTransfer({
           // 尝试从区块链获取详细信息并更新记录
           const blockchainTx = await getTransactionDetails(tx.hash)
           if (blockchainTx) {
-            // 重新获取最新的交易列表，确保不会覆盖其他可能的更新
-            const currentStoredTransactions = localStorage.getItem('datachain_transactions')
-            const currentTransactions = currentStoredTransactions ? JSON.parse(currentStoredTransactions) : []
-            const finalTransactions = currentTransactions.filter((t: Transaction) => t.hash !== tx.hash)
-            const newTransactions = [blockchainTx, ...finalTransactions]
-            
+            // 用链上详情更新同一哈希的本地记录，后台核对写入的收据和替换关系保持不变
             console.log('区块链交易详情获取成功，更新记录:', blockchainTx)
-            onTransactionUpdate(newTransactions)
-            localStorage.setItem('datachain_transactions', JSON.stringify(newTransactions))
+            const { hash, token, ...details } = blockchainTx
+            await updateHistoryRecord(hash, token, details)
           } else {
             console.log('无法从区块链获取交易详情，保持本地记录')
           }
@@ -284,26 +422,17 @@ export function NativeTransfer({
     } catch (error) {
       console.error('交易失败详情:', error)
       
-      let errorMsg = '交易失败: '
+      const reason = describeTransactionError(error)
+      let errorMsg = '交易失败: ' + reason
       
       // 更新当前步骤为错误状态
       const currentStep = steps.find(s => s.status === 'loading')
       if (currentStep) {
-        updateStep(currentStep.id, { status: 'error', error: errorMsg })
+        updateStep(currentStep.id, { status: 'error', error: reason })
       }
       
-      if (error instanceof Error) {
-        if (error.message.includes('External transactions to internal accounts cannot include data')) {
-          errorMsg = '⚠️ MetaMask检测到目标地址为"内部账户"，不允许发送带数据的交易\n\n解决方案:\n1. 关闭"启用数据留言"开关（推荐）\n2. 或者发送到其他外部地址\n3. 或者使用其他钱包（如WalletConnect）\n\n注：内部账户通常指同一钱包内的其他账户'
-        } else if (error.message.includes('insufficient funds')) {
-          errorMsg = '余额不足，请检查账户余额'
-        } else if (error.message.includes('user rejected')) {
-          errorMsg = '用户取消了交易'
-        } else {
-          errorMsg += error.message
-        }
-      } else {
-        errorMsg += '未知错误'
+      if (error instanceof Error && error.message.includes('External transactions to internal accounts cannot include data')) {
+        errorMsg = '⚠️ MetaMask检测到目标地址为"内部账户"，不允许发送带数据的交易\n\n解决方案:\n1. 关闭"启用数据留言"开关（推荐）\n2. 或者发送到其他外部地址\n3. 或者使用其他钱包（如WalletConnect）\n\n注：内部账户通常指同一钱包内的其他账户'
       }
       
       showError(errorMsg)
@@ -323,10 +452,14 @@ export function NativeTransfer({
     console.log('正在通过交易哈希查询交易详情:', txHash)
 
     try {
-      // 检查是否已存在该交易记录
-      const existingTx = transactions.find(tx => tx.hash.toLowerCase() === txHash.toLowerCase())
+      // 检查是否已存在该交易记录（包括其他网络上的记录）
+      const existingTx = await getHistoryRecord(txHash, NATIVE_TOKEN)
       if (existingTx) {
-        // 直接设置搜索词高亮显示已存在的交易，不显示警告
+        // 记录属于其他网络时切换到全部网络显示，而不是去当前网络查询
+        if (existingTx.chainId !== network.chainId) {
+          setShowAllChains(true)
+          showWarning(`该交易记录属于 ${getNetworkName(existingTx.chainId)}，已切换为显示所有网络的记录`)
+        }
         setSearchTerm(txHash)
         setSearchInput(txHash)
         setIsSearching(false)
@@ -335,10 +468,8 @@ export function NativeTransfer({
 
       const transactionDetail = await getTransactionDetails(txHash)
       if (transactionDetail) {
-        // 将新查询到的交易添加到记录列表的顶部
-        const updatedTransactions = [transactionDetail, ...transactions]
-        onTransactionUpdate(updatedTransactions)
-        localStorage.setItem('datachain_transactions', JSON.stringify(updatedTransactions))
+        // 写入历史记录，列表按时间排序显示
+        await addHistoryRecords([transactionDetail])
         
         // 设置搜索词以高亮显示新添加的交易
         setSearchTerm(txHash)
@@ -390,6 +521,14 @@ export function NativeTransfer({
       )
     : transactions  // 没有搜索词时显示全部记录
 
+  // 金额输入无效时不计入预计费用
+  let parsedAmount: bigint | undefined
+  try {
+    parsedAmount = amount ? ethers.parseEther(amount) : undefined
+  } catch {
+    parsedAmount = undefined
+  }
+
   // 添加调试日志
   console.log('NativeTransfer组件渲染 - 总交易记录数:', transactions.length)
   console.log('NativeTransfer组件渲染 - 过滤后记录数:', filteredTransactions.length)
@@ -401,59 +540,119 @@ export function NativeTransfer({
       {/* 转账表单区域 */}
       <div className="transfer-section">
         <h2>原生转账</h2>
-        
-        <div className="form-row">
-          <input
-            type="text"
-            className="form-input"
-            placeholder="收款账户 (0x...)"
-            value={toAddress}
-            onChange={(e) => setToAddress(e.target.value)}
-          />
-        </div>
-        
-        <div className="form-row">
-          <input
-            type="text"
-            className="form-input"
-            placeholder={`转账金额 (${network.symbol})`}
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
-          />
-        </div>
-        
+
         <div className="form-row">
           <label className="toggle-switch">
             <input
               type="checkbox"
-              checked={useData}
-              onChange={(e) => setUseData(e.target.checked)}
+              checked={batchMode}
+              onChange={(e) => setBatchMode(e.target.checked)}
             />
             <span className="toggle-slider"></span>
-            <span className="toggle-label">启用数据留言 (MetaMask内部账户不支持)</span>
+            <span className="toggle-label">批量模式（导入CSV：地址,金额,备注）</span>
           </label>
         </div>
+
+        {batchMode ? (
+          <BatchPayout
+            account={account}
+            provider={provider}
+            signer={signer}
+            network={network}
+            onRowSent={(row, hash) => addHistoryRecords([
+              {
+                type: 'native',
+                hash,
+                chainId: network.chainId,
+                account,
+                from: account,
+                to: row.address,
+                amount: row.amount,
+                token: NATIVE_TOKEN,
+                decimals: network.decimals,
+                timestamp: Date.now(),
+                source: 'local',
+                status: 'pending'
+              }
+            ])}
+            onRowSettled={(hash, status, replacedBy) =>
+              setTransactionStatus(hash, status, replacedBy).catch(console.error)
+            }
+            onFinished={onBalanceUpdate}
+          />
+        ) : (
+          <>
+            <div className="form-row">
+              <input
+                type="text"
+                className="form-input"
+                placeholder="收款账户 (0x...)"
+                value={toAddress}
+                onChange={(e) => setToAddress(e.target.value)}
+              />
+            </div>
         
-        {useData && (
-          <div className="form-row">
-            <textarea
-              className="form-textarea"
-              placeholder="数据留言框（16进制存储到区块链）"
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
+            <div className="form-row">
+              <input
+                type="text"
+                className="form-input"
+                placeholder={`转账金额 (${network.symbol})`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+        
+            <div className="form-row">
+              <label className="toggle-switch">
+                <input
+                  type="checkbox"
+                  checked={useData}
+                  onChange={(e) => setUseData(e.target.checked)}
+                />
+                <span className="toggle-slider"></span>
+                <span className="toggle-label">启用数据留言 (MetaMask内部账户不支持)</span>
+              </label>
+            </div>
+        
+            {useData && (
+              <div className="form-row">
+                <textarea
+                  className="form-textarea"
+                  placeholder="数据留言框（16进制存储到区块链）"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                />
+              </div>
+            )}
+        
+            <FeePanel
+              fees={fees}
+              symbol={network.symbol}
+              estimatedGas={useData && message.trim() ? undefined : PLAIN_TRANSFER_GAS}
+              value={parsedAmount}
             />
-          </div>
-        )}
         
-        <button
-          className="submit-btn"
-          onClick={sendTransaction}
-          disabled={isLoading || !account}
-        >
-          {isLoading ? '提交中...' : '提交交易'}
-        </button>
+            <button
+              className="submit-btn"
+              onClick={sendTransaction}
+              disabled={isLoading || !account}
+            >
+              {isLoading ? '提交中...' : '提交交易'}
+            </button>
+          </>
+        )}
       </div>
 
+      {/* 发送前的模拟结果预览 */}
+      {preview && (
+        <TransactionPreview
+          preview={preview}
+          symbol={network.symbol}
+          onConfirm={confirmPreview}
+          onCancel={cancelPreview}
+        />
+      )}
+
       {/* 交易进度条 */}
       {isVisible && (
         <TransactionProgress
@@ -467,6 +666,20 @@ export function NativeTransfer({
       {/* 记录查询区域 */}
       <div className="records-section">
         <h2>链上交易记录</h2>
+
+        <div className="form-row">
+          <label className="toggle-switch">
+            <input
+              type="checkbox"
+              checked={showAllChains}
+              onChange={(e) => setShowAllChains(e.target.checked)}
+            />
+            <span className="toggle-slider"></span>
+            <span className="toggle-label">
+              {showAllChains ? '显示所有网络的记录' : `仅显示 ${network.name} 上的记录`}
+            </span>
+          </label>
+        </div>
         
         <div className="search-box">
           <div className="search-input-group">
@@ -511,6 +724,8 @@ export function NativeTransfer({
             </div>
           )}
         </div>
+
+        <HistoryTransferBar records={filteredTransactions} networks={networks} fileName="native-history" />
         
         <div className="records-list">
           {filteredTransactions.length === 0 ? (
@@ -531,7 +746,7 @@ export function NativeTransfer({
                       borderRadius: '4px',
                       marginBottom: '5px'
                     }}>
-                      {tx.source === 'blockchain' ? '🔗 区块链' : '💾 本地'}
+                      {tx.source === 'blockchain' ? '🔗 区块链' : '💾 本地'} · {getNetworkName(tx.chainId)}
                     </div>
                     <div className="tx-hash">{tx.hash}</div>
                   </div>
@@ -543,9 +758,36 @@ export function NativeTransfer({
                 <div className="record-details">
                   <p><strong>From:</strong> {tx.from}</p>
                   <p><strong>To:</strong> {tx.to}</p>
-                  <p><strong>Value:</strong> {tx.value} {network.symbol}</p>
+                  <p><strong>Value:</strong> {tx.amount} {findNetwork(tx.chainId)?.symbol ?? network.symbol}</p>
                   {tx.data && <p><strong>Data:</strong> {tx.data}</p>}
+                  {tx.status && <p><strong>状态:</strong> {STATUS_LABELS[tx.status]}</p>}
+                  {tx.blockNumber !== undefined && <p><strong>区块:</strong> {tx.blockNumber}</p>}
+                  {recordFee(tx) !== null && (
+                    <p><strong>手续费:</strong> {ethers.formatEther(recordFee(tx) ?? 0n)} {findNetwork(tx.chainId)?.symbol ?? network.symbol}</p>
+                  )}
+                  {tx.replacedBy && <p><strong>替换交易:</strong> {tx.replacedBy}</p>}
                 </div>
+
+                {tx.status === 'pending' && !tx.replacedBy && tx.chainId === network.chainId && tx.from.toLowerCase() === account.toLowerCase() && (
+                  <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                    <button
+                      className="search-btn"
+                      style={{ fontSize: '12px', padding: '8px 12px' }}
+                      onClick={() => replacePendingTransaction(tx, 'speedup')}
+                      disabled={replacingHash !== ''}
+                    >
+                      ⚡ 加速
+                    </button>
+                    <button
+                      className="clear-search-btn"
+                      style={{ fontSize: '12px', padding: '8px 12px' }}
+                      onClick={() => replacePendingTransaction(tx, 'cancel')}
+                      disabled={replacingHash !== ''}
+                    >
+                      🚫 取消交易
+                    </button>
+                  </div>
+                )}
               </div>
             ))
           )}
@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { useNonceQueue } from '../hooks/useNonceQueue'
+import type { QueueEntryState } from '../utils/nonceQueue'
+
+interface NonceQueuePanelProps {
+  provider: ethers.BrowserProvider | null
+  account: string
+  chainId: string
+}
+
+const STATE_LABELS: Record<QueueEntryState, { label: string; color: string }> = {
+  queued: { label: '📝 等待签名', color: '#718096' },
+  pending: { label: '⏳ 待打包', color: '#ed8936' },
+  mined: { label: '✅ 已打包', color: '#48bb78' },
+  failed: { label: '❌ 执行失败', color: '#f56565' },
+  replaced: { label: '🔁 已被替换', color: '#ed8936' },
+  cancelled: { label: '🚫 已取消', color: '#718096' }
+}
+
+export function NonceQueuePanel({ provider, account, chainId }: NonceQueuePanelProps) {
+  const { entries, counts, checkError, dropped, gaps, refresh, clearSettled } = useNonceQueue(provider, account, chainId)
+  const [isExpanded, setIsExpanded] = useState<boolean>(false)
+
+  const activeCount = entries.filter(entry => entry.state === 'queued' || entry.state === 'pending').length
+  const hasProblem = gaps.length > 0 || dropped.length > 0
+
+  if (entries.length === 0 && !hasProblem) {
+    return null
+  }
+
+  return (
+    <div style={{
+      background: hasProblem ? 'rgba(245, 101, 101, 0.08)' : 'rgba(102, 126, 234, 0.08)',
+      border: `1px solid ${hasProblem ? 'rgba(245, 101, 101, 0.3)' : 'rgba(102, 126, 234, 0.2)'}`,
+      borderRadius: '8px',
+      padding: '12px 15px',
+      margin: '0 0 20px',
+      fontSize: '13px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+        <span>
+          🧾 <strong>交易队列</strong> · 进行中 {activeCount} 笔
+          {counts && <> · 已打包 nonce &lt; {counts.latest} · 节点待处理至 {counts.pending}</>}
+        </span>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button className="search-btn" style={{ fontSize: '12px', padding: '6px 10px' }} onClick={refresh}>
+            🔄
+          </button>
+          <button
+            className="search-btn"
+            style={{ fontSize: '12px', padding: '6px 10px' }}
+            onClick={() => setIsExpanded(!isExpanded)}
+          >
+            {isExpanded ? '收起' : '展开'}
+          </button>
+        </div>
+      </div>
+
+      {gaps.length > 0 && (
+        <div style={{ color: '#f56565', marginTop: '8px' }}>
+          ⚠️ nonce {gaps.join(', ')} 缺失，之后的交易会一直等待，请用相同 nonce 补发或取消后续交易
+        </div>
+      )}
+      {dropped.length > 0 && (
+        <div style={{ color: '#f56565', marginTop: '8px' }}>
+          ⚠️ 节点交易池中找不到 nonce {dropped.map(entry => entry.nonce).join(', ')} 的交易，可能已被丢弃
+        </div>
+      )}
+      {checkError && (
+        <div style={{ color: '#f56565', marginTop: '8px' }}>⚠️ {checkError}</div>
+      )}
+
+      {isExpanded && (
+        <>
+          <div style={{ marginTop: '10px' }}>
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  gap: '8px',
+                  padding: '6px 0',
+                  borderTop: '1px solid rgba(102, 126, 234, 0.1)'
+                }}
+              >
+                <span style={{ fontFamily: "'Courier New', monospace", minWidth: '70px' }}>
+                  #{entry.nonce ?? '-'}
+                </span>
+                <span style={{ flex: 1 }}>
+                  {entry.label}
+                  {entry.hash && (
+                    <code style={{ marginLeft: '6px', color: '#667eea' }}>
+                      {entry.hash.slice(0, 10)}...{entry.hash.slice(-6)}
+                    </code>
+                  )}
+                </span>
+                <span style={{ color: STATE_LABELS[entry.state].color }}>{STATE_LABELS[entry.state].label}</span>
+              </div>
+            ))}
+          </div>
+          <button
+            className="clear-search-btn"
+            style={{ fontSize: '12px', padding: '6px 10px', marginTop: '8px' }}
+            onClick={clearSettled}
+          >
+            清除已完成
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { formatAllowance } from '../hooks/useTokenApprovals'
+import { permitToJson, type SignedPermit } from '../utils/permit'
+import { downloadTextFile } from '../utils/csv'
+
+interface PermitPanelProps {
+  permit: SignedPermit
+  symbol: string
+  decimals: number
+  isSubmitting: boolean
+  // 传入 spender 合约的函数签名，参数按名称填充
+  onHandoff: (functionSignature: string) => void
+  onClose: () => void
+}
+
+export function PermitPanel({ permit, symbol, decimals, isSubmitting, onHandoff, onClose }: PermitPanelProps) {
+  const [functionSignature, setFunctionSignature] = useState<string>('')
+  const expired = Number(permit.deadline) * 1000 < Date.now()
+
+  const exportJson = () => {
+    downloadTextFile(`permit-${symbol}-${permit.nonce}.json`, permitToJson(permit), 'application/json')
+  }
+
+  return (
+    <div className="record-details" style={{ marginTop: '15px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <strong>Permit 签名（未上链）</strong>
+        <button className="clear-search-btn" onClick={onClose} title="丢弃这个签名">
+          ✕
+        </button>
+      </div>
+      <p><strong>授权对象:</strong> {permit.spender}</p>
+      <p>
+        <strong>授权数量:</strong> {formatAllowance(permit.value, decimals)}
+        {permit.value !== ethers.MaxUint256 && ` ${symbol}`}
+      </p>
+      <p>
+        <strong>有效期至:</strong> {new Date(Number(permit.deadline) * 1000).toLocaleString('zh-CN')}
+        {expired && <span style={{ color: '#e53e3e' }}>（已过期）</span>}
+      </p>
+      <p><strong>nonce:</strong> {permit.nonce.toString()}</p>
+      <p className="tx-hash">v: {permit.v}</p>
+      <p className="tx-hash">r: {permit.r}</p>
+      <p className="tx-hash">s: {permit.s}</p>
+
+      <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+        <input
+          type="text"
+          className="search-input"
+          placeholder="spender 合约函数，如 depositWithPermit(uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)"
+          value={functionSignature}
+          onChange={(e) => setFunctionSignature(e.target.value)}
+        />
+        <button
+          className="search-btn"
+          onClick={() => onHandoff(functionSignature)}
+          disabled={isSubmitting || expired || !functionSignature.trim()}
+          title="调用 spender 合约的函数，由合约在同一笔交易中提交 permit"
+          style={{ fontSize: '12px', padding: '8px 12px', whiteSpace: 'nowrap' }}
+        >
+          {isSubmitting ? '提交中...' : '调用合约'}
+        </button>
+        <button
+          className="search-btn"
+          onClick={exportJson}
+          title="导出签名 JSON，交给中继代为提交"
+          style={{ fontSize: '12px', padding: '8px 12px', whiteSpace: 'nowrap' }}
+        >
+          📥 导出 JSON
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+import { useEffect, useMemo } from 'react'
+import { ethers } from 'ethers'
+import { usePortfolio } from '../hooks/usePortfolio'
+import { useTokenLists } from '../hooks/useTokenLists'
+import { useTokenRegistry } from '../hooks/useTokenRegistry'
+import { useHistory } from '../hooks/useHistory'
+import { sumChainBalances, type PortfolioBalance, type PortfolioToken } from '../utils/portfolio'
+
+interface Network {
+  name: string
+  chainId: string
+  rpcUrl: string
+  symbol: string
+  decimals: number
+}
+
+interface PortfolioProps {
+  // 钱包中已连接的所有账户
+  accounts: string[]
+  currentAccount: string
+  networks: Network[]
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN')
+
+function BalanceList({ balances }: { balances: PortfolioBalance[] }) {
+  return (
+    <div className="portfolio-balances">
+      {balances.map(balance => {
+        const amount = ethers.formatUnits(balance.amount, balance.decimals)
+        return (
+          <span key={balance.tokenAddress ?? 'native'} className="portfolio-balance" title={`${amount} ${balance.symbol}`}>
+            {parseFloat(amount).toFixed(4)} {balance.symbol}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+export function Portfolio({ accounts, currentAccount, networks }: PortfolioProps) {
+  // 代币列表可能有上千个代币，逐个查询余额会被公共 RPC 限流；
+  // 只查询用户添加的代币和账户有过交易记录的列表代币
+  const { tokensByChain: listedTokens } = useTokenLists()
+  const { tokens: customTokens } = useTokenRegistry()
+  const { records: tokenRecords, isLoading: isHistoryLoading } = useHistory({ type: 'token' })
+
+  // 有交易记录的 chainId:代币符号；转为字符串，历史记录更新但代币不变时不会重新查询
+  const historyTokenKey = useMemo(() => {
+    const owners = new Set(accounts.map(account => account.toLowerCase()))
+    const keys = new Set(
+      tokenRecords
+        .filter(record => record.chainId && [record.account, record.from, record.to].some(address => owners.has(address.toLowerCase())))
+        .map(record => `${record.chainId}:${record.token}`)
+    )
+    return [...keys].sort().join(',')
+  }, [tokenRecords, accounts])
+
+  const tokensByChain = useMemo(() => {
+    const historyTokens = new Set(historyTokenKey.split(','))
+    const result: Record<string, PortfolioToken[]> = {}
+    for (const network of networks) {
+      const tokens = new Map<string, PortfolioToken>()
+      const listed = (listedTokens[network.chainId] || []).filter(token => historyTokens.has(`${network.chainId}:${token.symbol}`))
+      for (const token of [...listed, ...customTokens.filter(item => item.chainId === network.chainId)]) {
+        tokens.set(token.address.toLowerCase(), { symbol: token.symbol, address: token.address, decimals: token.decimals })
+      }
+      result[network.chainId] = [...tokens.values()]
+    }
+    return result
+  }, [networks, listedTokens, customTokens, historyTokenKey])
+
+  const { chains, isLoading, lastUpdated, refresh } = usePortfolio(networks, accounts, tokensByChain)
+
+  // 等历史记录读取完成后再查询，避免先按不完整的代币列表查询一次
+  useEffect(() => {
+    if (!isHistoryLoading) {
+      refresh()
+    }
+  }, [refresh, isHistoryLoading])
+
+  if (accounts.length === 0) {
+    return (
+      <div className="unified-layout">
+        <div className="records-section">
+          <h2>资产总览</h2>
+          <div className="empty-state">
+            <p>请先连接钱包</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const failedChains = chains.filter(chain => chain.error)
+
+  return (
+    <div className="unified-layout">
+      <div className="records-section">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+          <h2 style={{ margin: 0 }}>资产总览</h2>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            <span className="timestamp">
+              {lastUpdated ? `上次更新: ${formatTime(lastUpdated)}` : '尚未更新'}
+            </span>
+            <button className="search-btn" onClick={refresh} disabled={isLoading}>
+              {isLoading ? '查询中...' : '🔄 刷新'}
+            </button>
+          </div>
+        </div>
+
+        {failedChains.length > 0 && (
+          <div className="progress-info" style={{ color: '#e53e3e', marginBottom: '15px' }}>
+            {failedChains.map(chain => chain.networkName).join('、')} 的 RPC 暂时不可用，有上次查询结果时显示上次的余额
+          </div>
+        )}
+
+        <p className="timestamp" style={{ marginBottom: '10px' }}>
+          只查询自定义代币和有交易记录的代币，其他代币请先在代币转账中添加
+        </p>
+
+        <h3>按账户</h3>
+        {accounts.map(account => (
+          <div key={account} className="record-item">
+            <div className="record-header">
+              <strong className="tx-hash">
+                {shortAddress(account)}
+                {account.toLowerCase() === currentAccount.toLowerCase() && ' · 当前账户'}
+              </strong>
+            </div>
+            <div className="record-details">
+              {chains.length === 0 && <p>{isLoading ? '正在查询...' : '暂无数据'}</p>}
+              {chains.map(chain => {
+                const entry = chain.accounts.find(item => item.account === account)
+                return (
+                  <div key={chain.chainId} className="portfolio-chain-row">
+                    <span className="portfolio-chain-name">{chain.networkName}</span>
+                    {entry ? (
+                      <div>
+                        <BalanceList balances={entry.balances} />
+                        {entry.errors.length > 0 && (
+                          <div style={{ color: '#e53e3e', fontSize: '12px' }}>
+                            部分余额读取失败: {entry.errors.join('；')}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <span style={{ color: '#e53e3e', fontSize: '12px' }}>{chain.error ?? '暂无数据'}</span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+
+        {accounts.length > 1 && (
+          <>
+            <h3>按网络合计</h3>
+            {chains.map(chain => (
+              <div key={chain.chainId} className="record-item">
+                <div className="record-header">
+                  <strong>{chain.networkName}</strong>
+                  <span className="timestamp">{formatTime(chain.updatedAt)}</span>
+                </div>
+                <div className="record-details">
+                  {chain.accounts.length > 0 ? (
+                    <BalanceList balances={sumChainBalances(chain)} />
+                  ) : (
+                    <p style={{ color: '#e53e3e' }}>{chain.error ?? '暂无数据'}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useRef } from 'react'
+import { useNotification } from '../hooks/useNotification'
+import type { StoredTokenList } from '../hooks/useTokenLists'
+import { toHexChainId, type TokenList } from '../utils/tokenLists'
+
+interface TokenListManagerProps {
+  lists: StoredTokenList[]
+  // 十六进制 chainId，用于统计每个列表在当前网络上的代币数
+  chainId: string
+  onUpload: (text: string) => TokenList
+  onRemove: (id: string) => void
+}
+
+export function TokenListManager({ lists, chainId, onUpload, onRemove }: TokenListManagerProps) {
+  const { showError, showSuccess } = useNotification()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const uploadFile = async (file: File) => {
+    try {
+      const list = onUpload(await file.text())
+      showSuccess(`已加载代币列表 ${list.name}（${list.tokens.length} 个代币）`)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : '加载代币列表失败')
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  return (
+    <div className="record-details" style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <strong>代币列表</strong>
+        <button
+          className="search-btn"
+          onClick={() => fileInputRef.current?.click()}
+          title="上传 tokenlists.org 格式的 JSON 代币列表"
+          style={{ fontSize: '12px', padding: '6px 10px' }}
+        >
+          📤 上传列表
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) {
+              uploadFile(file)
+            }
+          }}
+        />
+      </div>
+      {lists.map(({ id, list, builtin }) => (
+        <p key={id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span>
+            {list.name} v{list.version.major}.{list.version.minor}.{list.version.patch}
+            {' · '}当前网络 {list.tokens.filter(token => toHexChainId(token.chainId) === chainId).length} 个代币
+            {builtin && ' · 内置'}
+          </span>
+          {!builtin && (
+            <button className="clear-search-btn" onClick={() => onRemove(id)} title="移除这个代币列表">
+              ✕
+            </button>
+          )}
+        </p>
+      ))}
+    </div>
+  )
+}
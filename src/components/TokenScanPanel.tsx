@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react'
+import type { TokenScanProgress } from '../hooks/useTokenHistoryScanner'
+
+interface TokenScanPanelProps {
+  progress: TokenScanProgress[]
+  isScanning: boolean
+  // 配置的起始区块，未配置时为 null（首次扫描只回溯最近的区块）
+  startBlock: number | null
+  onStartBlockChange: (block: number | null) => void
+  onScan: () => void
+  onReset: () => void
+}
+
+function percentage(item: TokenScanProgress): number {
+  const total = item.targetBlock - item.startBlock + 1
+  if (total <= 0) return 100
+  return Math.min(100, Math.max(0, ((item.scannedTo - item.startBlock + 1) / total) * 100))
+}
+
+export function TokenScanPanel({ progress, isScanning, startBlock, onStartBlockChange, onScan, onReset }: TokenScanPanelProps) {
+  const [draft, setDraft] = useState<string>(startBlock?.toString() ?? '')
+
+  useEffect(() => {
+    setDraft(startBlock?.toString() ?? '')
+  }, [startBlock])
+
+  const draftError = draft.trim() && !/^\d+$/.test(draft.trim()) ? '起始区块必须是非负整数' : ''
+  const applyStartBlock = () => {
+    if (draftError) return
+    onStartBlockChange(draft.trim() ? Number(draft.trim()) : null)
+    onScan()
+  }
+
+  return (
+    <div style={{ marginBottom: '15px' }}>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '10px' }}>
+        <input
+          type="text"
+          className="search-input"
+          placeholder="起始区块（留空只扫描最近 10000 个区块）"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              applyStartBlock()
+            }
+          }}
+        />
+        <button
+          className="search-btn"
+          onClick={applyStartBlock}
+          disabled={Boolean(draftError) || isScanning}
+          title="从起始区块扫描，已扫描的区间不会重复查询"
+          style={{ fontSize: '12px', padding: '8px 12px', whiteSpace: 'nowrap' }}
+        >
+          🔎 扫描
+        </button>
+        <button
+          className="clear-search-btn"
+          onClick={() => {
+            onReset()
+            onScan()
+          }}
+          disabled={isScanning}
+          title="清除检查点并从起始区块重新扫描"
+          style={{ whiteSpace: 'nowrap' }}
+        >
+          重新扫描
+        </button>
+      </div>
+      {draftError && <div style={{ color: '#e53e3e', fontSize: '12px', marginBottom: '8px' }}>{draftError}</div>}
+
+      {progress.map(item => (
+        <div key={item.symbol} style={{ marginBottom: '8px' }}>
+          <div className="progress-info" style={{ marginBottom: '4px', fontSize: '12px' }}>
+            <span>
+              {item.symbol}：#{item.startBlock} → #{item.targetBlock}
+              {item.status === 'scanning' && `，已扫描到 #${Math.max(item.scannedTo, item.startBlock - 1)}`}
+            </span>
+            <span>
+              {item.status === 'done' ? '✅ 已完成' : item.status === 'error' ? '❌ 出错' : `${Math.floor(percentage(item))}%`}
+            </span>
+          </div>
+          <div className="progress-track" style={{ marginBottom: '4px' }}>
+            <div className="progress-fill" style={{ width: `${item.status === 'done' ? 100 : percentage(item)}%` }} />
+          </div>
+          {item.error && (
+            <div style={{ color: '#e53e3e', fontSize: '12px', wordBreak: 'break-all' }}>
+              {item.error}，已保存检查点，下次从中断处继续
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
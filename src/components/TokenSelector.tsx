@@ -0,0 +1,83 @@
+import { useState } from 'react'
+
+interface SelectableToken {
+  symbol: string
+  name: string
+  address: string
+  logoURI?: string
+}
+
+interface TokenSelectorProps {
+  tokens: SelectableToken[]
+  selected: string
+  onSelect: (symbol: string) => void
+}
+
+// 代币较多时才显示搜索框
+const SEARCH_THRESHOLD = 6
+
+// ipfs:// 链接通过公共网关显示
+function resolveLogo(uri: string): string {
+  return uri.startsWith('ipfs://') ? `https://ipfs.io/ipfs/${uri.slice('ipfs://'.length)}` : uri
+}
+
+export function TokenSelector({ tokens, selected, onSelect }: TokenSelectorProps) {
+  const [query, setQuery] = useState<string>('')
+  // 加载失败的图标不再显示
+  const [brokenLogos, setBrokenLogos] = useState<Set<string>>(() => new Set())
+
+  const keyword = query.trim().toLowerCase()
+  const visibleTokens = keyword
+    ? tokens.filter(token =>
+        token.symbol.toLowerCase().includes(keyword) ||
+        token.name.toLowerCase().includes(keyword) ||
+        token.address.toLowerCase() === keyword
+      )
+    : tokens
+
+  return (
+    <div>
+      {tokens.length > SEARCH_THRESHOLD && (
+        <div className="search-input-group" style={{ marginBottom: '10px' }}>
+          <input
+            type="text"
+            className="search-input"
+            placeholder="按符号、名称或合约地址搜索代币"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          {query && (
+            <button className="clear-search-btn" onClick={() => setQuery('')}>
+              ✕
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="token-selector">
+        {visibleTokens.map(token => (
+          <button
+            key={token.address}
+            className={`token-option ${selected === token.symbol ? 'active' : ''}`}
+            title={`${token.name}\n${token.address}`}
+            onClick={() => onSelect(token.symbol)}
+          >
+            {token.logoURI && !brokenLogos.has(token.address) ? (
+              <img
+                src={resolveLogo(token.logoURI)}
+                alt=""
+                onError={() => setBrokenLogos(current => new Set(current).add(token.address))}
+              />
+            ) : (
+              <span className="token-option-placeholder">{token.symbol.slice(0, 1)}</span>
+            )}
+            {token.symbol}
+          </button>
+        ))}
+        {visibleTokens.length === 0 && (
+          <span style={{ color: '#718096', fontSize: '13px' }}>没有匹配的代币</span>
+        )}
+      </div>
+    </div>
+  )
+}
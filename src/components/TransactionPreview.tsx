@@ -0,0 +1,45 @@
+import { ethers } from 'ethers'
+import type { TransactionPreviewData } from '../hooks/useTransactionPreview'
+
+export type { TransactionPreviewData }
+
+interface TransactionPreviewProps {
+  preview: TransactionPreviewData
+  symbol: string
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function TransactionPreview({ preview, symbol, onConfirm, onCancel }: TransactionPreviewProps) {
+  return (
+    <div className="transaction-preview">
+      <div className="progress-info">
+        <span className="progress-text">🧪 {preview.title}</span>
+      </div>
+
+      <div className="record-details">
+        {preview.details.map((detail) => (
+          <p key={detail.label}>
+            <strong>{detail.label}:</strong> {detail.value}
+          </p>
+        ))}
+        <p><strong>预计 Gas:</strong> {preview.gasLimit.toString()}</p>
+        <p><strong>最高Gas费用:</strong> {ethers.formatEther(preview.fee)} {symbol}</p>
+        {preview.value !== undefined && preview.value > 0n && (
+          <p>
+            <strong>预计总花费:</strong> ≤ {ethers.formatEther(preview.fee + preview.value)} {symbol}
+          </p>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', marginTop: '15px' }}>
+        <button className="clear-search-btn" onClick={onCancel} style={{ flex: '1' }}>
+          取消
+        </button>
+        <button className="submit-btn" onClick={onConfirm} style={{ flex: '2', marginTop: 0 }}>
+          确认并在钱包中签名
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -37,7 +37,7 @@ export function TransactionProgress({ steps, onClose, provider, onComplete }: Tr
           )
           
           // 检查是否所有步骤都完成了
-          const allCompleted = newSteps.every(s => s.status === 'success' || s.status === 'error')
+          const allCompleted = newSteps.every(s => s.status !== 'pending' && s.status !== 'loading')
           if (allCompleted && onComplete) {
             setTimeout(() => onComplete(), 1000) // 1秒后触发完成回调
           }
@@ -89,6 +89,10 @@ export function TransactionProgress({ steps, onClose, provider, onComplete }: Tr
         return '✅'
       case 'error':
         return '❌'
+      case 'replaced':
+        return '🔁'
+      case 'cancelled':
+        return '🚫'
       default:
         return '⏳'
     }
@@ -104,16 +108,19 @@ export function TransactionProgress({ steps, onClose, provider, onComplete }: Tr
         return '已完成'
       case 'error':
         return step.error || '失败'
+      case 'replaced':
+        return step.txHash ? `已被替换: ${step.txHash.slice(0, 10)}...` : '已被替换'
+      case 'cancelled':
+        return '已取消'
       default:
         return '等待中...'
     }
   }
 
-  const isAllCompleted = currentSteps.every(step => 
-    step.status === 'success' || step.status === 'error'
-  )
+  const isAllCompleted = currentSteps.every(step => step.status !== 'pending' && step.status !== 'loading')
 
   const hasError = currentSteps.some(step => step.status === 'error')
+  const cancelledStep = currentSteps.find(step => step.status === 'cancelled')
 
   const currentStepIndex = currentSteps.findIndex(step => step.status === 'loading')
   const completedSteps = currentSteps.filter(step => step.status === 'success').length
@@ -162,10 +169,12 @@ export function TransactionProgress({ steps, onClose, provider, onComplete }: Tr
         <div className="current-step">
           {currentStepIndex >= 0 ? (
             <>正在执行: {currentSteps[currentStepIndex]?.label}</>
-          ) : isAllCompleted && !hasError ? (
+          ) : isAllCompleted && !hasError && !cancelledStep ? (
             <span className="success-text">🎉 所有交易已成功完成！</span>
           ) : hasError ? (
             <span className="error-text">⚠️ 部分交易执行失败</span>
+          ) : cancelledStep ? (
+            <span className="error-text">🚫 交易已被取消</span>
           ) : (
             '准备中...'
           )}
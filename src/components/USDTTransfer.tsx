@@ -6,6 +6,43 @@ import {
 } from "./TransactionProgress";
 import { useTransactionProgress } from '../hooks/useTransactionProgress';
 import { useNotification } from '../hooks/useNotification';
+import { useTransactionPreview } from '../hooks/useTransactionPreview';
+import { TransactionPreview } from './TransactionPreview';
+import { FeePanel } from './FeePanel';
+import { BatchPayout } from './BatchPayout';
+import { HistoryTransferBar } from './HistoryTransferBar';
+import { TokenScanPanel } from './TokenScanPanel';
+import { AddTokenForm } from './AddTokenForm';
+import { TokenListManager } from './TokenListManager';
+import { TokenSelector } from './TokenSelector';
+import { ApprovalsDashboard } from './ApprovalsDashboard';
+import { PermitPanel } from './PermitPanel';
+import { useFeeSettings, type FeeOverrides } from '../hooks/useFeeSettings';
+import { describeTransactionError, simulateTransaction, type SimulationResult } from '../utils/simulation';
+import { trackTransaction } from '../utils/nonceQueue';
+import { replaceTransaction, waitForOutcome, type ReplacementMode } from '../utils/replacement';
+import { useHistory } from '../hooks/useHistory';
+import { useTokenHistoryScanner } from '../hooks/useTokenHistoryScanner';
+import { useTokenRegistry } from '../hooks/useTokenRegistry';
+import { useTokenLists } from '../hooks/useTokenLists';
+import { approvalKey, formatAllowance, useTokenApprovals, type TokenApproval } from '../hooks/useTokenApprovals';
+import { getBlockHeader } from '../utils/blockCache';
+import {
+  DEFAULT_PERMIT_TTL,
+  buildPermitHandoffArgs,
+  detectPermitSupport,
+  parsePermitHandoff,
+  signPermit,
+  type SignedPermit,
+} from '../utils/permit';
+import {
+  addHistoryRecords,
+  queryHistory,
+  recordFee,
+  updateHistoryRecord,
+  type HistoryRecord,
+  type HistoryStatus,
+} from '../utils/historyRepository';
 
 interface Network {
   name: string;
@@ -20,23 +57,24 @@ interface TokenInfo {
   symbol: string;
   address: string;
   decimals: number;
+  logoURI?: string;
 }
 
-interface USDTRecord {
-  hash: string;
-  from: string;
-  to: string;
-  amount: string;
-  token: string;
-  timestamp: number;
-  status: "pending" | "confirmed" | "failed";
-}
+const RECORD_STATUS_STYLES: Record<HistoryStatus, { label: string; color: string; background: string }> = {
+  pending: { label: "🔄 待确认", color: "#ed8936", background: "rgba(237, 137, 54, 0.1)" },
+  confirmed: { label: "✅ 已确认", color: "#48bb78", background: "rgba(72, 187, 120, 0.1)" },
+  failed: { label: "❌ 失败", color: "#f56565", background: "rgba(245, 101, 101, 0.1)" },
+  replaced: { label: "🔁 已被替换", color: "#ed8936", background: "rgba(237, 137, 54, 0.1)" },
+  cancelled: { label: "🚫 已取消", color: "#718096", background: "rgba(113, 128, 150, 0.1)" },
+  dropped: { label: "🕳️ 已丢弃", color: "#718096", background: "rgba(113, 128, 150, 0.1)" },
+};
 
 interface USDTTransferProps {
   account: string;
   provider: ethers.BrowserProvider | null;
   signer: ethers.JsonRpcSigner | null;
   network: Network;
+  networks: Network[];
   onBalanceUpdate: () => void;
 }
 
@@ -45,6 +83,7 @@ export function USDTTransfer({
   provider,
   signer,
   network,
+  networks,
   onBalanceUpdate,
 }: USDTTransferProps) {
   const { showError, showSuccess, showWarning } = useNotification();
@@ -53,16 +92,27 @@ export function USDTTransfer({
   const [message, setMessage] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isApproving, setIsApproving] = useState<boolean>(false);
+  const [spender, setSpender] = useState<string>("");
+  const [approveUnlimited, setApproveUnlimited] = useState<boolean>(false);
+  // 当前代币对 spender 的授权额度，spender 无效时为 null
+  const [currentAllowance, setCurrentAllowance] = useState<bigint | null>(null);
+  const [revokingKey, setRevokingKey] = useState<string>("");
+  // 当前代币是否支持 EIP-2612 permit；支持时默认用签名代替 approve 交易
+  const [permitSupported, setPermitSupported] = useState<boolean>(false);
+  const [usePermit, setUsePermit] = useState<boolean>(true);
+  const [signedPermit, setSignedPermit] = useState<SignedPermit | null>(null);
+  const [isSubmittingPermit, setIsSubmittingPermit] = useState<boolean>(false);
   const [selectedToken, setSelectedToken] = useState<string>("USDT");
   const [tokenBalance, setTokenBalance] = useState<string>("0");
   // const [showSwapModal, setShowSwapModal] = useState<boolean>(false)
   // const [swapEthAmount, setSwapEthAmount] = useState<string>('')
   // const [swapTokenAmount, setSwapTokenAmount] = useState<string>('')
-  const [usdtRecords, setUsdtRecords] = useState<USDTRecord[]>([]);
   const [searchTerm, setSearchTerm] = useState<string>("");
   const [searchInput, setSearchInput] = useState<string>("");
-  const [isLoadingRecords, setIsLoadingRecords] = useState<boolean>(false);
   const [isSearchingTxHash, setIsSearchingTxHash] = useState<boolean>(false);
+  const [replacingHash, setReplacingHash] = useState<string>("");
+  const [batchMode, setBatchMode] = useState<boolean>(false);
+  const [showAllChains, setShowAllChains] = useState<boolean>(false);
 
   // 交易进度条状态
   const { isVisible, steps, showProgress, hideProgress, updateStep, handleComplete } =
@@ -70,40 +120,57 @@ export function USDTTransfer({
       // 完成后自动刷新链上记录
       loadTokenRecordsFromChain();
     });
+  const { preview, requestConfirmation, confirmPreview, cancelPreview } = useTransactionPreview();
+  const fees = useFeeSettings(provider);
+  // 默认只显示当前账户在当前网络上的代币转账记录
+  const { records: usdtRecords } = useHistory({
+    account,
+    chainId: showAllChains ? undefined : network.chainId,
+    type: "token",
+  });
+
+  // 迁移的旧记录没有网络信息
+  const getNetworkName = (chainId: string) =>
+    chainId
+      ? networks.find((net) => net.chainId === chainId)?.name ?? `Chain ${parseInt(chainId, 16)}`
+      : "未知网络";
+
+
+  // 代币列表中的代币和用户在当前网络上添加的代币，按符号索引
+  const { lists: tokenLists, tokensByChain, addList, removeList } = useTokenLists();
+  const { tokens: customTokens, addToken, removeToken } = useTokenRegistry();
+  const supportedTokens = useMemo(() => {
+    const tokens: { [symbol: string]: TokenInfo } = {};
+    for (const token of tokensByChain[network.chainId] || []) {
+      tokens[token.symbol] = {
+        name: token.name,
+        symbol: token.symbol,
+        address: token.address,
+        decimals: token.decimals,
+        logoURI: token.logoURI,
+      };
+    }
+    for (const token of customTokens) {
+      if (token.chainId !== network.chainId) continue;
+      tokens[token.symbol] = {
+        name: token.name,
+        symbol: token.symbol,
+        address: token.address,
+        decimals: token.decimals,
+      };
+    }
+    return tokens;
+  }, [tokensByChain, customTokens, network.chainId]);
+  const isCustomToken = (symbol: string) =>
+    customTokens.some((token) => token.chainId === network.chainId && token.symbol === symbol);
 
-  // 代币信息配置
-  const TOKEN_INFO = useMemo((): { [chainId: string]: { [symbol: string]: TokenInfo } } => ({
-    "0xaa36a7": {
-      // Sepolia
-      USDT: {
-        name: "Tether USD",
-        symbol: "USDT",
-        address: "0xaA8E23Fb1079EA71e0a56F48a2aA51851D8433D0",
-        decimals: 6,
-      },
-      USDC: {
-        name: "USD Coin",
-        symbol: "USDC",
-        address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
-        decimals: 6,
-      },
-    },
-    "0x1": {
-      // Ethereum Mainnet
-      USDT: {
-        name: "Tether USD",
-        symbol: "USDT",
-        address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
-        decimals: 6,
-      },
-      USDC: {
-        name: "USD Coin",
-        symbol: "USDC",
-        address: "0xA0b86a33E6441cf2A5d3fB4A52C8B8C9A4DE0e6d",
-        decimals: 6,
-      },
-    },
-  }), []);
+  // 切换网络后原来选中的代币可能不存在，改选第一个可用代币
+  useEffect(() => {
+    const symbols = Object.keys(supportedTokens);
+    if (symbols.length > 0 && !supportedTokens[selectedToken]) {
+      setSelectedToken(symbols[0]);
+    }
+  }, [supportedTokens, selectedToken]);
 
   // ERC20 ABI (包含approve功能和Transfer事件)
   const ERC20_ABI = useMemo(() => [
@@ -114,149 +181,105 @@ export function USDTTransfer({
     "function approve(address spender, uint256 amount) returns (bool)",
     "function allowance(address owner, address spender) view returns (uint256)",
     "event Transfer(address indexed from, address indexed to, uint256 value)",
+    // OpenZeppelin v5 自定义错误，用于解码模拟失败的原因
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InvalidSender(address sender)",
+    "error ERC20InvalidReceiver(address receiver)",
+    "error ERC20InvalidApprover(address approver)",
+    "error ERC20InvalidSpender(address spender)",
   ], []);
 
-  // 备用：从本地存储加载记录
-  const loadUSDTRecordsFromLocal = useCallback(() => {
-    const saved = localStorage.getItem("datachain_usdt_records");
-    if (saved) {
-      const localRecords = JSON.parse(saved) as USDTRecord[];
-      // 只显示当前钱包地址相关的记录
-      const userRecords = localRecords.filter(
-        (record) =>
-          record.from.toLowerCase() === account.toLowerCase() ||
-          record.to.toLowerCase() === account.toLowerCase()
-      );
-      setUsdtRecords(userRecords);
+  // 按检查点增量扫描当前网络上各代币的转账记录
+  const scanTokens = useMemo(
+    () =>
+      Object.entries(supportedTokens).map(([symbol, info]) => ({
+        symbol,
+        address: info.address,
+        decimals: info.decimals,
+      })),
+    [supportedTokens]
+  );
+  const {
+    progress: scanProgress,
+    isScanning: isLoadingRecords,
+    scan: loadTokenRecordsFromChain,
+    startBlock: scanStartBlock,
+    setStartBlock: setScanStartBlock,
+    resetCheckpoints,
+  } = useTokenHistoryScanner(provider, network.chainId, account, scanTokens);
+
+  useEffect(() => {
+    if (account && provider) {
+      loadTokenRecordsFromChain();
     }
-  }, [account]);
+  }, [account, provider, network.chainId, loadTokenRecordsFromChain]);
 
-  // 从链上查询代币转账记录
-  const loadTokenRecordsFromChain = useCallback(async () => {
-    if (!provider || !account) return;
+  // 从 Approval 事件还原当前账户尚未撤销的授权
+  const {
+    approvals,
+    isLoading: isLoadingApprovals,
+    failedTokens: failedApprovalTokens,
+    coverage: approvalCoverage,
+    refresh: refreshApprovals,
+  } = useTokenApprovals(provider, network.chainId, account, scanTokens);
 
-    setIsLoadingRecords(true);
-    const allRecords: USDTRecord[] = [];
+  useEffect(() => {
+    if (account && provider) {
+      refreshApprovals();
+    }
+  }, [account, provider, network.chainId, refreshApprovals]);
 
-    try {
-      // 查询每个支持的代币的转账记录
-      for (const tokenSymbol of Object.keys(
-        TOKEN_INFO[network.chainId] || {}
-      )) {
-        const tokenInfo = TOKEN_INFO[network.chainId][tokenSymbol];
-        if (!tokenInfo) continue;
-
-        const contract = new ethers.Contract(
-          tokenInfo.address,
-          ERC20_ABI,
-          provider
-        );
+  const setRecordStatus = (hash: string, token: string, status: HistoryStatus, replacedBy?: string) =>
+    updateHistoryRecord(hash, token, replacedBy ? { status, replacedBy } : { status });
 
-        // 查询最近的区块范围（避免查询过多区块导致性能问题）
-        const currentBlock = await provider.getBlockNumber();
-        const fromBlock = Math.max(0, currentBlock - 10000); // 查询最近10000个区块
-
-        try {
-          // 查询发出的转账
-          const sentFilter = contract.filters.Transfer(account, null);
-          const sentLogs = await contract.queryFilter(
-            sentFilter,
-            fromBlock,
-            currentBlock
-          );
+  // 用相同 nonce 加速或取消待确认的代币转账
+  const replacePendingRecord = async (record: HistoryRecord, mode: ReplacementMode) => {
+    if (!signer || !provider) {
+      showError("请先连接钱包");
+      return;
+    }
 
-          // 查询收到的转账
-          const receivedFilter = contract.filters.Transfer(null, account);
-          const receivedLogs = await contract.queryFilter(
-            receivedFilter,
-            fromBlock,
-            currentBlock
-          );
+    const actionLabel = mode === "cancel" ? "取消" : "加速";
+    try {
+      setReplacingHash(record.hash);
+      const replacement = await trackTransaction(
+        { chainId: network.chainId, account, label: `${actionLabel} ${record.hash.slice(0, 10)}...` },
+        () => replaceTransaction(signer, provider, record.hash, mode)
+      );
+      showSuccess(`${actionLabel}交易已提交，新交易哈希: ${replacement.hash}`);
 
-          // 合并并处理所有日志
-          const allLogs = [...sentLogs, ...receivedLogs];
-
-          for (const log of allLogs) {
-            // 类型转换为EventLog以访问args属性
-            if (!("args" in log) || !log.args) continue;
-
-            const block = await provider.getBlock(log.blockNumber);
-            const args = log.args as readonly [string, string, bigint];
-            const amount = ethers.formatUnits(
-              args[2] || 0n,
-              tokenInfo.decimals
-            );
-
-            const record: USDTRecord = {
-              hash: log.transactionHash,
-              from: args[0] || "",
-              to: args[1] || "",
-              amount: amount,
-              token: tokenSymbol,
-              timestamp: block ? block.timestamp * 1000 : Date.now(),
-              status: "confirmed",
-            };
-
-            // 避免重复记录
-            if (
-              !allRecords.find(
-                (r) => r.hash === record.hash && r.token === record.token
-              )
-            ) {
-              allRecords.push(record);
-            }
-          }
-        } catch (tokenError) {
-          console.warn(`查询 ${tokenSymbol} 转账记录失败:`, tokenError);
-        }
+      await updateHistoryRecord(record.hash, record.token, { replacedBy: replacement.hash });
+      if (mode === "speedup") {
+        await addHistoryRecords([
+          { ...record, hash: replacement.hash, timestamp: Date.now(), status: "pending", replacedBy: undefined },
+        ]);
       }
 
-      // 按时间排序（最新的在前面）
-      allRecords.sort((a, b) => b.timestamp - a.timestamp);
-      setUsdtRecords(allRecords);
+      const outcome = await waitForOutcome(replacement);
+      await setRecordStatus(record.hash, record.token, mode === "cancel" ? "cancelled" : "replaced", replacement.hash);
+      if (mode === "speedup") {
+        await setRecordStatus(replacement.hash, record.token, outcome.status);
+      }
+      checkTokenBalance();
+      onBalanceUpdate();
     } catch (error) {
-      console.error("查询链上记录失败:", error);
-      // 如果链上查询失败，回退到本地存储
-      loadUSDTRecordsFromLocal();
+      console.error(`${actionLabel}交易失败:`, error);
+      showError(`${actionLabel}交易失败: ` + describeTransactionError(error));
     } finally {
-      setIsLoadingRecords(false);
-    }
-  }, [provider, account, network.chainId, ERC20_ABI, TOKEN_INFO, loadUSDTRecordsFromLocal]);
-
-  useEffect(() => {
-    if (account && provider) {
-      loadTokenRecordsFromChain();
-    }
-  }, [account, provider, network.chainId, loadTokenRecordsFromChain]);
-
-  // 保存到本地存储（作为备份）
-  const saveUSDTRecordsToLocal = (records: USDTRecord[]) => {
-    const existingRecords = localStorage.getItem("datachain_usdt_records");
-    const allRecords = existingRecords ? JSON.parse(existingRecords) : [];
-
-    // 合并新记录和已有记录，避免重复
-    for (const record of records) {
-      if (
-        !allRecords.find(
-          (r: USDTRecord) => r.hash === record.hash && r.token === record.token
-        )
-      ) {
-        allRecords.push(record);
-      }
+      setReplacingHash("");
     }
-
-    localStorage.setItem("datachain_usdt_records", JSON.stringify(allRecords));
   };
 
   const getTokenContract = useCallback((tokenSymbol: string = selectedToken) => {
-    const tokenInfo = TOKEN_INFO[network.chainId]?.[tokenSymbol];
+    const tokenInfo = supportedTokens[tokenSymbol];
     if (!tokenInfo || !signer) return null;
     return new ethers.Contract(tokenInfo.address, ERC20_ABI, signer);
-  }, [selectedToken, network.chainId, TOKEN_INFO, ERC20_ABI, signer]);
+  }, [selectedToken, supportedTokens, ERC20_ABI, signer]);
 
   const getCurrentTokenInfo = useCallback(() => {
-    return TOKEN_INFO[network.chainId]?.[selectedToken];
-  }, [network.chainId, selectedToken, TOKEN_INFO]);
+    return supportedTokens[selectedToken];
+  }, [selectedToken, supportedTokens]);
 
   // 检查代币余额
   const checkTokenBalance = useCallback(async () => {
@@ -289,18 +312,57 @@ export function USDTTransfer({
   //   await checkTokenBalance()
   // }
 
-  // Approve功能
-  const approveToken = async () => {
-    if (!signer || !tokenAmount) {
-      showError("请填写转账数量");
-      return;
+  // 在 pending 状态上模拟代币合约调用，失败时标记进度并返回 null
+  const simulateTokenCall = async (
+    provider: ethers.Provider,
+    tokenContract: ethers.Contract,
+    method: "transfer" | "approve",
+    args: unknown[],
+    overrides: FeeOverrides
+  ): Promise<SimulationResult | null> => {
+    updateStep("simulate", { status: "loading" });
+    try {
+      const txRequest = await tokenContract.getFunction(method).populateTransaction(...args, overrides);
+      const simulation = await simulateTransaction(
+        provider,
+        { ...txRequest, from: account },
+        tokenContract.interface
+      );
+      updateStep("simulate", { status: "success" });
+      return simulation;
+    } catch (simulationError) {
+      const reason = simulationError instanceof Error ? simulationError.message : "未知错误";
+      updateStep("simulate", { status: "error", error: reason });
+      showError(`${selectedToken} ${method} 模拟失败: ` + reason);
+      return null;
     }
+  };
 
-    const tokenContract = getTokenContract();
-    if (!tokenContract) {
+  // 设置 spender 对代币的授权额度，数量为 0 时即撤销授权
+  // 按合约地址发送 approve，不同列表中同符号的代币不会发到错误的合约
+  const approveToken = async (
+    tokenInfo: Pick<TokenInfo, "symbol" | "address" | "decimals"> | undefined,
+    spenderAddress: string,
+    amountInWei: bigint
+  ) => {
+    if (!signer || !provider) {
+      showError("请先连接钱包");
+      return false;
+    }
+
+    if (fees.inputError) {
+      showError(fees.inputError);
+      return false;
+    }
+
+    if (!tokenInfo) {
       showError(`当前网络 ${network.name} 暂不支持${selectedToken}`);
-      return;
+      return false;
     }
+    const tokenSymbol = tokenInfo.symbol;
+    const tokenContract = new ethers.Contract(tokenInfo.address, ERC20_ABI, signer);
+    const isRevoke = amountInWei === 0n;
+    const amountLabel = isRevoke ? "0（撤销授权）" : `${formatAllowance(amountInWei, tokenInfo.decimals)} ${tokenSymbol}`;
 
     try {
       setIsApproving(true);
@@ -312,6 +374,11 @@ export function USDTTransfer({
           label: "验证Approve参数",
           status: "loading",
         },
+        {
+          id: "simulate",
+          label: "模拟Approve交易",
+          status: "pending",
+        },
         {
           id: "submit",
           label: "提交Approve交易",
@@ -326,44 +393,264 @@ export function USDTTransfer({
 
       showProgress(progressSteps);
 
-      const tokenInfo = getCurrentTokenInfo();
-      const amountInWei = ethers.parseUnits(
-        tokenAmount,
-        tokenInfo?.decimals || 18
-      );
-
-      // 验证完成
+      // 验证完成，发送前先模拟
       updateStep("validation", { status: "success" });
-      updateStep("submit", { status: "loading" });
 
-      // 这里可以approve给一个智能合约或者自己
-      const tx = await tokenContract.approve(account, amountInWei);
+      const overrides = fees.getOverrides();
+      const simulation = await simulateTokenCall(provider, tokenContract, "approve", [spenderAddress, amountInWei], overrides);
+      if (!simulation) return false;
+
+      const confirmed = await requestConfirmation({
+        title: `${tokenSymbol} ${isRevoke ? "撤销授权" : "Approve"}预览`,
+        details: [
+          { label: "授权对象", value: spenderAddress },
+          { label: "授权数量", value: amountLabel },
+          { label: "预期结果", value: "模拟执行成功" },
+        ],
+        gasLimit: simulation.gasLimit,
+        fee: simulation.fee,
+      });
+      if (!confirmed) {
+        hideProgress();
+        return false;
+      }
+
+      updateStep("submit", { status: "loading" });
+      const tx = await trackTransaction(
+        {
+          chainId: network.chainId,
+          account,
+          label: isRevoke ? `撤销 ${tokenSymbol} 授权` : `Approve ${amountLabel}`,
+        },
+        () => tokenContract.approve(spenderAddress, amountInWei, overrides)
+      );
 
       // 提交成功，开始确认
       updateStep("submit", { status: "success", txHash: tx.hash });
       updateStep("confirm", { status: "loading", txHash: tx.hash });
 
-      // 等待交易确认 - 进度条组件会自动处理waitForTransaction
-      await tx.wait();
+      // 等待交易确认，原交易被加速或取消时显示替换结果
+      const outcome = await waitForOutcome(tx);
+      if (outcome.status === "failed") {
+        throw new Error("Approve交易执行失败");
+      }
+      if (outcome.status === "replaced" || outcome.status === "cancelled") {
+        updateStep("confirm", { status: outcome.status, txHash: outcome.replacementHash });
+        return false;
+      }
 
       // 确认成功
       updateStep("confirm", { status: "success" });
+      refreshApprovals();
+      return true;
     } catch (error) {
       console.error("Approve失败:", error);
 
       // 更新当前步骤为错误状态
+      const errorMsg = describeTransactionError(error, tokenContract.interface);
       const currentStep = steps.find((s) => s.status === "loading");
       if (currentStep) {
-        const errorMsg = error instanceof Error ? error.message : "未知错误";
         updateStep(currentStep.id, { status: "error", error: errorMsg });
       }
+      showError("Approve失败: " + errorMsg);
+      return false;
     } finally {
       setIsApproving(false);
     }
   };
 
+  const spenderError = (() => {
+    const value = spender.trim();
+    if (!value) return "";
+    if (!ethers.isAddress(value)) return "授权地址格式不正确";
+    if (account && value.toLowerCase() === account.toLowerCase()) return "不能授权给自己的地址";
+    return "";
+  })();
+
+  const canApprove =
+    !isApproving && Boolean(account) && Boolean(spender.trim()) && !spenderError && (approveUnlimited || Boolean(tokenAmount));
+
+  // 表单中的 Approve：无限授权使用 MaxUint256，否则按填写的数量授权
+  const approveFromForm = async () => {
+    if (!spender.trim() || spenderError) {
+      showError(spenderError || "请填写授权地址");
+      return;
+    }
+    const tokenInfo = getCurrentTokenInfo();
+    let amountInWei: bigint;
+    if (approveUnlimited) {
+      amountInWei = ethers.MaxUint256;
+    } else {
+      try {
+        amountInWei = ethers.parseUnits(tokenAmount, tokenInfo?.decimals || 18);
+      } catch {
+        showError("请输入有效的授权数量");
+        return;
+      }
+      if (amountInWei <= 0n) {
+        showError("授权数量必须大于 0，撤销授权请使用下方的授权列表");
+        return;
+      }
+    }
+    const spenderAddress = ethers.getAddress(spender.trim());
+    if (permitSupported && usePermit) {
+      await signPermitFromForm(spenderAddress, amountInWei);
+    } else {
+      await approveToken(getCurrentTokenInfo(), spenderAddress, amountInWei);
+    }
+  };
+
+  // 签名前重新检测以取得最新的 nonce；检测失败时回退到 approve 交易
+  const signPermitFromForm = async (spenderAddress: string, amountInWei: bigint) => {
+    const tokenInfo = getCurrentTokenInfo();
+    if (!signer || !provider || !tokenInfo) {
+      showError("请先连接钱包");
+      return;
+    }
+
+    try {
+      setIsApproving(true);
+      const support = await detectPermitSupport(provider, tokenInfo.address, account);
+      if (!support) {
+        setIsApproving(false);
+        showWarning(`${selectedToken} 不支持 permit 签名，改为发送 approve 交易`);
+        await approveToken(tokenInfo, spenderAddress, amountInWei);
+        return;
+      }
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + DEFAULT_PERMIT_TTL);
+      const permit = await signPermit(signer, tokenInfo.address, support, spenderAddress, amountInWei, deadline);
+      setSignedPermit(permit);
+      showSuccess("Permit 签名完成，可以调用 spender 合约提交或导出 JSON 交给中继");
+    } catch (error) {
+      console.error("Permit 签名失败:", error);
+      showError("Permit 签名失败: " + describeTransactionError(error));
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  // 把签名交给 spender 合约：合约在同一笔交易中调用 permit 并使用额度
+  const submitPermitHandoff = async (functionSignature: string) => {
+    if (!signer || !provider || !signedPermit) {
+      showError("请先连接钱包");
+      return;
+    }
+    if (fees.inputError) {
+      showError(fees.inputError);
+      return;
+    }
+
+    let fragment: ethers.FunctionFragment;
+    try {
+      fragment = parsePermitHandoff(functionSignature);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "函数签名格式不正确");
+      return;
+    }
+
+    const spenderContract = new ethers.Contract(signedPermit.spender, [fragment], signer);
+    try {
+      setIsSubmittingPermit(true);
+      const args = buildPermitHandoffArgs(fragment, signedPermit);
+      const overrides = fees.getOverrides();
+      const txRequest = await spenderContract.getFunction(fragment.name).populateTransaction(...args, overrides);
+      const simulation = await simulateTransaction(provider, { ...txRequest, from: account }, spenderContract.interface);
+
+      const confirmed = await requestConfirmation({
+        title: `${fragment.name} 预览`,
+        details: [
+          { label: "调用合约", value: signedPermit.spender },
+          { label: "调用函数", value: fragment.format() },
+          { label: "预期结果", value: "模拟执行成功" },
+        ],
+        gasLimit: simulation.gasLimit,
+        fee: simulation.fee,
+      });
+      if (!confirmed) return;
+
+      const tx = await trackTransaction(
+        { chainId: network.chainId, account, label: `${fragment.name} (permit)` },
+        () => spenderContract.getFunction(fragment.name).send(...args, overrides)
+      );
+      showSuccess(`交易已提交: ${tx.hash}`);
+      const outcome = await waitForOutcome(tx);
+      if (outcome.status === "failed") {
+        throw new Error(`${fragment.name} 交易执行失败`);
+      }
+      if (outcome.status === "confirmed") {
+        setSignedPermit(null);
+      }
+      checkTokenBalance();
+      onBalanceUpdate();
+      refreshApprovals();
+    } catch (error) {
+      console.error("提交 permit 失败:", error);
+      showError("提交 permit 失败: " + describeTransactionError(error, spenderContract.interface));
+    } finally {
+      setIsSubmittingPermit(false);
+    }
+  };
+
+  // 切换代币或账户后重新检测 permit 支持，旧签名不再适用
+  useEffect(() => {
+    const tokenInfo = supportedTokens[selectedToken];
+    setSignedPermit(null);
+    setPermitSupported(false);
+    if (!provider || !account || !tokenInfo) return;
+
+    let cancelled = false;
+    detectPermitSupport(provider, tokenInfo.address, account)
+      .then((support) => {
+        if (!cancelled) setPermitSupported(support !== null);
+      })
+      .catch((error) => console.warn("检测 permit 支持失败:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, account, selectedToken, supportedTokens]);
+
+  const revokeApproval = async (approval: TokenApproval) => {
+    setRevokingKey(approvalKey(approval));
+    try {
+      await approveToken(
+        { symbol: approval.symbol, address: approval.tokenAddress, decimals: approval.decimals },
+        approval.spender,
+        0n
+      );
+    } finally {
+      setRevokingKey("");
+    }
+  };
+
+  // 实时显示当前代币对 spender 的授权额度，每个新区块刷新一次
+  useEffect(() => {
+    const tokenContract = getTokenContract();
+    const value = spender.trim();
+    if (!provider || !tokenContract || !account || !ethers.isAddress(value)) {
+      setCurrentAllowance(null);
+      return;
+    }
+
+    let cancelled = false;
+    const readAllowance = async () => {
+      try {
+        const allowance: bigint = await tokenContract.allowance(account, value);
+        if (!cancelled) setCurrentAllowance(allowance);
+      } catch (error) {
+        console.warn("查询授权额度失败:", error);
+      }
+    };
+    readAllowance();
+    provider.on("block", readAllowance);
+    return () => {
+      cancelled = true;
+      provider.off("block", readAllowance);
+    };
+  }, [provider, account, spender, getTokenContract]);
+
+
   const transferToken = async () => {
-    if (!signer || !toAddress || !tokenAmount) {
+    if (!signer || !provider || !toAddress || !tokenAmount) {
       showError("请填写完整信息");
       return;
     }
@@ -373,12 +660,19 @@ export function USDTTransfer({
       return;
     }
 
+    if (fees.inputError) {
+      showError(fees.inputError);
+      return;
+    }
+
     const tokenContract = getTokenContract();
     if (!tokenContract) {
       showError(`当前网络 ${network.name} 暂不支持${selectedToken}转账`);
       return;
     }
 
+    // 已广播的交易哈希，失败时据此更新记录状态
+    let submittedHash = "";
     try {
       setIsLoading(true);
 
@@ -389,6 +683,11 @@ export function USDTTransfer({
           label: "验证转账参数",
           status: "loading",
         },
+        {
+          id: "simulate",
+          label: "模拟转账交易",
+          status: "pending",
+        },
         {
           id: "submit",
           label: "提交转账交易",
@@ -422,11 +721,34 @@ export function USDTTransfer({
         contractAddress: tokenInfo?.address,
       });
 
-      // 验证完成
+      // 验证完成，发送前先模拟
       updateStep("validation", { status: "success" });
-      updateStep("submit", { status: "loading" });
 
-      const tx = await tokenContract.transfer(toAddress, amountInWei);
+      const overrides = fees.getOverrides();
+      const simulation = await simulateTokenCall(provider, tokenContract, "transfer", [toAddress, amountInWei], overrides);
+      if (!simulation) return;
+
+      const confirmed = await requestConfirmation({
+        title: `${selectedToken} 转账预览`,
+        details: [
+          { label: "收款账户", value: toAddress },
+          { label: "转账数量", value: `${tokenAmount} ${selectedToken}` },
+          { label: "当前余额", value: `${tokenBalance} ${selectedToken}` },
+          { label: "预期结果", value: "模拟执行成功" },
+        ],
+        gasLimit: simulation.gasLimit,
+        fee: simulation.fee,
+      });
+      if (!confirmed) {
+        hideProgress();
+        return;
+      }
+
+      updateStep("submit", { status: "loading" });
+      const tx = await trackTransaction(
+        { chainId: network.chainId, account, label: `转账 ${tokenAmount} ${selectedToken}` },
+        () => tokenContract.transfer(toAddress, amountInWei, overrides)
+      );
       console.log(`${selectedToken}转账已提交:`, tx.hash);
 
       // 提交成功，开始确认
@@ -434,26 +756,41 @@ export function USDTTransfer({
       updateStep("confirm", { status: "loading", txHash: tx.hash });
 
       // 立即显示待确认的记录
-      const pendingRecord: USDTRecord = {
+      submittedHash = tx.hash;
+      const pendingRecord: HistoryRecord = {
+        type: "token",
         hash: tx.hash,
+        chainId: network.chainId,
+        account,
         from: account,
         to: toAddress,
         amount: tokenAmount,
         token: selectedToken,
+        decimals: tokenInfo?.decimals ?? 18,
         timestamp: Date.now(),
         status: "pending",
       };
 
-      const updatedRecords = [pendingRecord, ...usdtRecords];
-      setUsdtRecords(updatedRecords);
-      saveUSDTRecordsToLocal([pendingRecord]);
+      await addHistoryRecords([pendingRecord]);
 
-      // 等待交易确认 - 进度条组件会自动处理waitForTransaction
-      await tx.wait();
-      console.log(`${selectedToken}转账已确认`);
+      // 等待交易确认，原交易被加速或取消时不再一直等待
+      const outcome = await waitForOutcome(tx);
+      if (outcome.status === "failed") {
+        throw new Error("转账交易执行失败");
+      }
+      if (outcome.status === "replaced" || outcome.status === "cancelled") {
+        updateStep("confirm", { status: outcome.status, txHash: outcome.replacementHash });
+        await setRecordStatus(tx.hash, selectedToken, outcome.status, outcome.replacementHash);
+        if (outcome.status === "cancelled") {
+          updateStep("refresh", { status: "cancelled" });
+          return;
+        }
+      } else {
+        console.log(`${selectedToken}转账已确认`);
+        updateStep("confirm", { status: "success" });
+      }
 
-      // 确认成功，开始刷新链上记录
-      updateStep("confirm", { status: "success" });
+      // 开始刷新链上记录
       updateStep("refresh", { status: "loading" });
 
       // 交易确认后，重新从链上查询最新记录
@@ -473,37 +810,19 @@ export function USDTTransfer({
       console.error(`${selectedToken}转账失败:`, error);
 
       // 更新当前步骤为错误状态
+      const reason = describeTransactionError(error, tokenContract.interface);
       const currentStep = steps.find((s) => s.status === "loading");
       if (currentStep) {
-        const errorMsg = error instanceof Error ? error.message : "未知错误";
-        updateStep(currentStep.id, { status: "error", error: errorMsg });
+        updateStep(currentStep.id, { status: "error", error: reason });
       }
 
       // 更新失败状态
-      const failedRecords = usdtRecords.map((record) =>
-        record.status === "pending" && record.from === account
-          ? { ...record, status: "failed" as const }
-          : record
-      );
-      setUsdtRecords(failedRecords);
-
-      let errorMsg = `${selectedToken}转账失败: `;
-      if (error instanceof Error) {
-        if (
-          error.message.includes("insufficient funds") ||
-          error.message.includes("transfer amount exceeds balance")
-        ) {
-          errorMsg = `${selectedToken}余额不足，请检查您的${selectedToken}余额`;
-        } else if (error.message.includes("user rejected")) {
-          errorMsg = "用户取消了交易";
-        } else {
-          errorMsg += error.message;
-        }
-      } else {
-        errorMsg += "未知错误";
+      if (submittedHash) {
+        // 记录写入失败不能打断下面的错误提示
+        await setRecordStatus(submittedHash, selectedToken, "failed").catch(console.error);
       }
 
-      showError(errorMsg);
+      showError(`${selectedToken}转账失败: ` + reason);
     } finally {
       setIsLoading(false);
     }
@@ -532,12 +851,13 @@ export function USDTTransfer({
     console.log("正在通过交易哈希查询代币交易详情:", txHash);
 
     try {
-      // 检查是否已存在该交易记录
-      const existingRecord = usdtRecords.find(
-        (record) => record.hash.toLowerCase() === txHash.toLowerCase()
-      );
+      // 检查是否已存在该交易记录（包括其他网络上的记录）
+      const [existingRecord] = await queryHistory({ hash: txHash, type: "token" });
       if (existingRecord) {
-        showError("该代币交易记录已存在");
+        if (existingRecord.chainId !== network.chainId) {
+          setShowAllChains(true);
+        }
+        showError(`该代币交易记录已存在（${getNetworkName(existingRecord.chainId)}）`);
         setSearchTerm(txHash);
         setSearchInput(txHash);
         setIsSearchingTxHash(false);
@@ -560,12 +880,10 @@ export function USDTTransfer({
       }
 
       // 解析交易日志以确定是否为代币转账
-      let tokenRecord: USDTRecord | null = null;
+      let tokenRecord: HistoryRecord | null = null;
 
       // 遍历所有支持的代币合约
-      for (const [tokenSymbol, tokenInfo] of Object.entries(
-        TOKEN_INFO[network.chainId] || {}
-      )) {
+      for (const [tokenSymbol, tokenInfo] of Object.entries(supportedTokens)) {
         if (tx.to?.toLowerCase() === tokenInfo.address.toLowerCase()) {
           // 这是一个代币合约交易
           const contract = new ethers.Contract(
@@ -596,14 +914,18 @@ export function USDTTransfer({
 
             if (parsedLog) {
               const [from, to, amount] = parsedLog.args;
-              const block = await provider.getBlock(receipt.blockNumber);
+              const block = await getBlockHeader(provider, receipt.blockNumber);
 
               tokenRecord = {
+                type: "token",
                 hash: txHash,
+                chainId: network.chainId,
+                account,
                 from: from,
                 to: to,
                 amount: ethers.formatUnits(amount, tokenInfo.decimals),
                 token: tokenSymbol,
+                decimals: tokenInfo.decimals,
                 timestamp: block ? block.timestamp * 1000 : Date.now(),
                 status: receipt.status === 1 ? "confirmed" : "failed",
               };
@@ -614,10 +936,8 @@ export function USDTTransfer({
       }
 
       if (tokenRecord) {
-        // 将新查询到的交易添加到记录列表的顶部
-        const updatedRecords = [tokenRecord, ...usdtRecords];
-        setUsdtRecords(updatedRecords);
-        saveUSDTRecordsToLocal([tokenRecord]);
+        // 写入历史记录，列表按时间排序显示
+        await addHistoryRecords([tokenRecord]);
 
         // 设置搜索词以高亮显示新添加的交易
         setSearchTerm(txHash);
@@ -668,7 +988,6 @@ export function USDTTransfer({
     );
   });
 
-  const supportedTokens = TOKEN_INFO[network.chainId] || {};
   const currentTokenInfo = getCurrentTokenInfo();
   const hasBalance = parseFloat(tokenBalance) > 0;
 
@@ -678,6 +997,23 @@ export function USDTTransfer({
       <div className="transfer-section">
         <h2>代币转账</h2>
 
+        <TokenListManager
+          lists={tokenLists}
+          chainId={network.chainId}
+          onUpload={addList}
+          onRemove={removeList}
+        />
+
+        <AddTokenForm
+          provider={provider}
+          networkName={network.name}
+          knownTokens={Object.values(supportedTokens)}
+          onAdd={(token) => {
+            addToken({ ...token, chainId: network.chainId });
+            setSelectedToken(token.symbol);
+          }}
+        />
+
         {currentTokenInfo ? (
           <>
             <div
@@ -692,31 +1028,61 @@ export function USDTTransfer({
               <p>
                 <strong>合约地址:</strong> {currentTokenInfo.address}
               </p>
+              {currentTokenInfo.name !== currentTokenInfo.symbol && (
+                <p>
+                  <strong>代币名称:</strong> {currentTokenInfo.name}
+                </p>
+              )}
               <p>
                 <strong>支持代币:</strong>{" "}
                 {Object.keys(supportedTokens).join(", ")}
               </p>
+              {isCustomToken(selectedToken) && (
+                <button
+                  className="clear-search-btn"
+                  onClick={() => removeToken(network.chainId, currentTokenInfo.address)}
+                  title="从当前网络的代币列表中移除，已有的交易记录会保留"
+                >
+                  移除 {selectedToken}
+                </button>
+              )}
             </div>
 
             <div className="form-row">
-              <input
-                type="text"
-                className="form-input"
-                placeholder="转账地址 (0x...)"
-                value={toAddress}
-                onChange={(e) => setToAddress(e.target.value)}
-              />
+              <label className="toggle-switch">
+                <input
+                  type="checkbox"
+                  checked={batchMode}
+                  onChange={(e) => setBatchMode(e.target.checked)}
+                />
+                <span className="toggle-slider"></span>
+                <span className="toggle-label">批量模式（导入CSV：地址,金额,备注）</span>
+              </label>
             </div>
 
-            <div className="form-row">
-              <input
-                type="text"
-                className="form-input"
-                placeholder="转账金额"
-                value={tokenAmount}
-                onChange={(e) => setTokenAmount(e.target.value)}
-              />
-            </div>
+            {!batchMode && (
+              <>
+                <div className="form-row">
+                  <input
+                    type="text"
+                    className="form-input"
+                    placeholder="转账地址 (0x...)"
+                    value={toAddress}
+                    onChange={(e) => setToAddress(e.target.value)}
+                  />
+                </div>
+
+                <div className="form-row">
+                  <input
+                    type="text"
+                    className="form-input"
+                    placeholder="转账金额"
+                    value={tokenAmount}
+                    onChange={(e) => setTokenAmount(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
 
             <div className="form-row">
               <label
@@ -730,46 +1096,12 @@ export function USDTTransfer({
               >
                 选择代币:
               </label>
-              <div
-                style={{
-                  display: "flex",
-                  gap: "8px",
-                  flexWrap: "wrap",
-                  marginBottom: "15px",
-                }}
-              >
-                {Object.keys(supportedTokens).map((tokenSymbol) => (
-                  <button
-                    key={tokenSymbol}
-                    className={
-                      selectedToken === tokenSymbol
-                        ? "submit-btn"
-                        : "form-input"
-                    }
-                    style={{
-                      padding: "10px 16px",
-                      minWidth: "80px",
-                      cursor: "pointer",
-                      background:
-                        selectedToken === tokenSymbol
-                          ? "linear-gradient(135deg, #667eea 0%, #764ba2 100%)"
-                          : "rgba(255, 255, 255, 0.8)",
-                      color:
-                        selectedToken === tokenSymbol ? "white" : "#4a5568",
-                      border:
-                        selectedToken === tokenSymbol
-                          ? "none"
-                          : "2px solid rgba(102, 126, 234, 0.2)",
-                      borderRadius: "8px",
-                      fontSize: "14px",
-                      fontWeight: "500",
-                      transition: "all 0.3s ease",
-                    }}
-                    onClick={() => setSelectedToken(tokenSymbol)}
-                  >
-                    {tokenSymbol}
-                  </button>
-                ))}
+              <div style={{ marginBottom: "15px" }}>
+                <TokenSelector
+                  tokens={Object.values(supportedTokens)}
+                  selected={selectedToken}
+                  onSelect={setSelectedToken}
+                />
               </div>
               <div
                 style={{
@@ -815,40 +1147,154 @@ export function USDTTransfer({
               </div>
             </div>
 
-            <div className="form-row">
-              <textarea
-                className="form-textarea"
-                placeholder="转账信息文本框"
-                value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                rows={3}
-              />
-            </div>
+            {batchMode ? (
+              signer ? (
+                <BatchPayout
+                  account={account}
+                  provider={provider}
+                  signer={signer}
+                  network={network}
+                  token={{
+                    symbol: selectedToken,
+                    address: currentTokenInfo.address,
+                    decimals: currentTokenInfo.decimals,
+                    contract: new ethers.Contract(currentTokenInfo.address, ERC20_ABI, signer),
+                  }}
+                  onRowSent={(row, hash) => {
+                    const pendingRecord: HistoryRecord = {
+                      type: "token",
+                      hash,
+                      chainId: network.chainId,
+                      account,
+                      from: account,
+                      to: row.address,
+                      amount: row.amount,
+                      token: selectedToken,
+                      decimals: currentTokenInfo.decimals,
+                      timestamp: Date.now(),
+                      status: "pending",
+                    };
+                    addHistoryRecords([pendingRecord]);
+                  }}
+                  onRowSettled={(hash, status, replacedBy) =>
+                    setRecordStatus(hash, selectedToken, status, replacedBy).catch(console.error)
+                  }
+                  onFinished={() => {
+                    checkTokenBalance();
+                    onBalanceUpdate();
+                    loadTokenRecordsFromChain();
+                  }}
+                />
+              ) : (
+                <div className="empty-state">
+                  <p>请先连接钱包</p>
+                </div>
+              )
+            ) : (
+              <>
+                <div className="form-row">
+                  <textarea
+                    className="form-textarea"
+                    placeholder="转账信息文本框"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    rows={3}
+                  />
+                </div>
 
-            <div style={{ display: "flex", gap: "12px" }}>
-              <button
-                className="submit-btn"
-                style={{
-                  flex: "1",
-                  background:
-                    isApproving || !account || !tokenAmount
-                      ? "linear-gradient(135deg, #cbd5e0 0%, #a0aec0 100%)"
-                      : "linear-gradient(135deg, #ed8936 0%, #dd6b20 100%)",
-                }}
-                onClick={approveToken}
-                disabled={isApproving || !account || !tokenAmount}
-              >
-                {isApproving ? "Approve中..." : "Approve"}
-              </button>
-              <button
-                className="submit-btn"
-                style={{ flex: "2" }}
-                onClick={transferToken}
-                disabled={isLoading || !account || !toAddress || !tokenAmount}
-              >
-                {isLoading ? "发起交易中..." : "发起交易"}
-              </button>
-            </div>
+                <div className="form-row">
+                  <input
+                    type="text"
+                    className="form-input"
+                    placeholder="授权地址 spender (0x...)，Approve 时使用"
+                    value={spender}
+                    onChange={(e) => setSpender(e.target.value)}
+                  />
+                  {spenderError ? (
+                    <div style={{ color: "#e53e3e", fontSize: "12px", marginTop: "6px" }}>{spenderError}</div>
+                  ) : (
+                    currentAllowance !== null && (
+                      <div style={{ color: "#4a5568", fontSize: "12px", marginTop: "6px" }}>
+                        当前授权额度: {formatAllowance(currentAllowance, currentTokenInfo.decimals)}
+                        {currentAllowance !== ethers.MaxUint256 && ` ${selectedToken}`}
+                      </div>
+                    )
+                  )}
+                </div>
+
+                <div className="form-row">
+                  <label className="toggle-switch">
+                    <input
+                      type="checkbox"
+                      checked={approveUnlimited}
+                      onChange={(e) => setApproveUnlimited(e.target.checked)}
+                    />
+                    <span className="toggle-slider"></span>
+                    <span className="toggle-label">
+                      {approveUnlimited ? "无限授权（MaxUint256）" : "按转账金额精确授权"}
+                    </span>
+                  </label>
+                </div>
+
+                {permitSupported && (
+                  <div className="form-row">
+                    <label className="toggle-switch">
+                      <input
+                        type="checkbox"
+                        checked={usePermit}
+                        onChange={(e) => setUsePermit(e.target.checked)}
+                      />
+                      <span className="toggle-slider"></span>
+                      <span className="toggle-label">
+                        {usePermit
+                          ? `${selectedToken} 支持 permit：签名授权，无需发送 approve 交易`
+                          : "发送 approve 交易授权"}
+                      </span>
+                    </label>
+                  </div>
+                )}
+
+                <FeePanel fees={fees} symbol={network.symbol} />
+
+                <div style={{ display: "flex", gap: "12px" }}>
+                  <button
+                    className="submit-btn"
+                    style={{
+                      flex: "1",
+                      background:
+                        !canApprove
+                          ? "linear-gradient(135deg, #cbd5e0 0%, #a0aec0 100%)"
+                          : "linear-gradient(135deg, #ed8936 0%, #dd6b20 100%)",
+                    }}
+                    onClick={approveFromForm}
+                    disabled={!canApprove}
+                  >
+                    {isApproving
+                      ? permitSupported && usePermit ? "签名中..." : "Approve中..."
+                      : permitSupported && usePermit ? "Permit 签名" : "Approve"}
+                  </button>
+                  <button
+                    className="submit-btn"
+                    style={{ flex: "2" }}
+                    onClick={transferToken}
+                    disabled={isLoading || !account || !toAddress || !tokenAmount}
+                  >
+                    {isLoading ? "发起交易中..." : "发起交易"}
+                  </button>
+                </div>
+
+                {signedPermit && (
+                  <PermitPanel
+                    permit={signedPermit}
+                    symbol={selectedToken}
+                    decimals={currentTokenInfo.decimals}
+                    isSubmitting={isSubmittingPermit}
+                    onHandoff={submitPermitHandoff}
+                    onClose={() => setSignedPermit(null)}
+                  />
+                )}
+              </>
+            )}
           </>
         ) : (
           <div
@@ -861,11 +1307,31 @@ export function USDTTransfer({
               borderRadius: "8px",
             }}
           >
-            ⚠️ 当前网络 {network.name} 暂不支持代币转账
+            ⚠️ 当前网络 {network.name} 还没有可用的代币，请上传包含该网络的代币列表或在上方输入合约地址添加
           </div>
         )}
+
+        <ApprovalsDashboard
+          approvals={approvals}
+          isLoading={isLoadingApprovals}
+          failedTokens={failedApprovalTokens}
+          coverage={approvalCoverage}
+          revokingKey={revokingKey}
+          onRefresh={refreshApprovals}
+          onRevoke={revokeApproval}
+        />
       </div>
 
+      {/* 发送前的模拟结果预览 */}
+      {preview && (
+        <TransactionPreview
+          preview={preview}
+          symbol={network.symbol}
+          onConfirm={confirmPreview}
+          onCancel={cancelPreview}
+        />
+      )}
+
       {/* 交易进度条 */}
       {isVisible && (
         <TransactionProgress
@@ -880,6 +1346,20 @@ export function USDTTransfer({
       <div className="records-section">
         <h2>代币交易记录</h2>
 
+        <div className="form-row">
+          <label className="toggle-switch">
+            <input
+              type="checkbox"
+              checked={showAllChains}
+              onChange={(e) => setShowAllChains(e.target.checked)}
+            />
+            <span className="toggle-slider"></span>
+            <span className="toggle-label">
+              {showAllChains ? "显示所有网络的记录" : `仅显示 ${network.name} 上的记录`}
+            </span>
+          </label>
+        </div>
+
         <div className="search-box">
           <div className="search-input-group">
             <input
@@ -961,11 +1441,22 @@ export function USDTTransfer({
           )}
         </div>
 
+        <TokenScanPanel
+          progress={scanProgress}
+          isScanning={isLoadingRecords}
+          startBlock={scanStartBlock}
+          onStartBlockChange={setScanStartBlock}
+          onScan={loadTokenRecordsFromChain}
+          onReset={resetCheckpoints}
+        />
+
+        <HistoryTransferBar records={filteredUSDTRecords} networks={networks} fileName="token-history" />
+
         <div className="records-list">
-          {isLoadingRecords ? (
+          {isLoadingRecords && filteredUSDTRecords.length === 0 ? (
             <div className="empty-state">
               <p>🔄 正在从链上查询交易记录...</p>
-              <p>请稍候，这可能需要几秒钟时间</p>
+              <p>扫描进度见上方，已找到的记录会陆续显示</p>
             </div>
           ) : filteredUSDTRecords.length === 0 ? (
             <div className="empty-state">
@@ -989,28 +1480,14 @@ export function USDTTransfer({
                     <div
                       style={{
                         fontSize: "10px",
-                        color:
-                          record.status === "confirmed"
-                            ? "#48bb78"
-                            : record.status === "failed"
-                            ? "#f56565"
-                            : "#ed8936",
-                        background:
-                          record.status === "confirmed"
-                            ? "rgba(72, 187, 120, 0.1)"
-                            : record.status === "failed"
-                            ? "rgba(245, 101, 101, 0.1)"
-                            : "rgba(237, 137, 54, 0.1)",
+                        color: RECORD_STATUS_STYLES[record.status ?? "confirmed"].color,
+                        background: RECORD_STATUS_STYLES[record.status ?? "confirmed"].background,
                         padding: "2px 6px",
                         borderRadius: "4px",
                         marginBottom: "5px",
                       }}
                     >
-                      {record.status === "confirmed"
-                        ? "✅ 已确认"
-                        : record.status === "failed"
-                        ? "❌ 失败"
-                        : "🔄 待确认"}
+                      {RECORD_STATUS_STYLES[record.status ?? "confirmed"].label}
                     </div>
                     <div className="tx-hash">{record.hash}</div>
                   </div>
@@ -1032,7 +1509,50 @@ export function USDTTransfer({
                   <p>
                     <strong>Token:</strong> {record.token}
                   </p>
+                  <p>
+                    <strong>网络:</strong> {getNetworkName(record.chainId)}
+                  </p>
+                  {record.blockNumber !== undefined && (
+                    <p>
+                      <strong>区块:</strong> {record.blockNumber}
+                    </p>
+                  )}
+                  {recordFee(record) !== null && (
+                    <p>
+                      <strong>手续费:</strong> {ethers.formatEther(recordFee(record) ?? 0n)}{" "}
+                      {networks.find((net) => net.chainId === record.chainId)?.symbol ?? network.symbol}
+                    </p>
+                  )}
+                  {record.replacedBy && (
+                    <p>
+                      <strong>替换交易:</strong> {record.replacedBy}
+                    </p>
+                  )}
                 </div>
+
+                {record.status === "pending" &&
+                  !record.replacedBy &&
+                  record.chainId === network.chainId &&
+                  record.from.toLowerCase() === account.toLowerCase() && (
+                    <div style={{ display: "flex", gap: "8px", marginTop: "12px" }}>
+                      <button
+                        className="search-btn"
+                        style={{ fontSize: "12px", padding: "8px 12px" }}
+                        onClick={() => replacePendingRecord(record, "speedup")}
+                        disabled={replacingHash !== ""}
+                      >
+                        ⚡ 加速
+                      </button>
+                      <button
+                        className="clear-search-btn"
+                        style={{ fontSize: "12px", padding: "8px 12px" }}
+                        onClick={() => replacePendingRecord(record, "cancel")}
+                        disabled={replacingHash !== ""}
+                      >
+                        🚫 取消交易
+                      </button>
+                    </div>
+                  )}
               </div>
             ))
           )}
@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// pending: 尚未发送；sent: 已广播、等待结果；unknown: 恢复时无法确认是否已到账，需要人工核对；其余为最终状态
+export type BatchRowStatus = 'pending' | 'sent' | 'unknown' | 'confirmed' | 'failed' | 'cancelled'
+
+export interface BatchPayoutRow {
+  address: string
+  amount: string
+  memo: string
+  // 按代币精度换算后的数量（十进制字符串，便于存入 localStorage）
+  value: string
+  status: BatchRowStatus
+  // 发送前分配的 nonce，恢复时据此判断这一笔是否可能已经上链
+  nonce?: number
+  hash?: string
+  error?: string
+}
+
+export interface BatchPayout {
+  chainId: string
+  account: string
+  // 原生币为 'native'，代币为合约地址
+  token: string
+  symbol: string
+  createdAt: number
+  rows: BatchPayoutRow[]
+}
+
+const STORAGE_KEY = 'datachain_batch_payouts'
+
+function batchKey(chainId: string, account: string, token: string): string {
+  return `${chainId}:${account.toLowerCase()}:${token.toLowerCase()}`
+}
+
+function loadBatches(): Record<string, BatchPayout> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? (JSON.parse(saved) as Record<string, BatchPayout>) : {}
+  } catch (error) {
+    console.error('读取批量转账进度失败:', error)
+    return {}
+  }
+}
+
+function saveBatch(key: string, batch: BatchPayout | null) {
+  const batches = loadBatches()
+  if (batch) {
+    batches[key] = batch
+  } else {
+    delete batches[key]
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(batches))
+}
+
+// Hook for the current account's batch payout, persisted so an interrupted batch can be resumed
+export function useBatchPayout(chainId: string, account: string, token: string) {
+  const key = batchKey(chainId, account, token)
+  const [batch, setBatch] = useState<BatchPayout | null>(() => loadBatches()[key] ?? null)
+
+  useEffect(() => {
+    setBatch(loadBatches()[key] ?? null)
+  }, [key])
+
+  const startBatch = useCallback((symbol: string, rows: BatchPayoutRow[]): BatchPayout => {
+    const next: BatchPayout = { chainId, account, token, symbol, createdAt: Date.now(), rows }
+    saveBatch(key, next)
+    setBatch(next)
+    return next
+  }, [key, chainId, account, token])
+
+  // 基于本地存储中的最新进度更新，发送循环中的连续更新不会互相覆盖
+  const updateRow = useCallback((index: number, updates: Partial<BatchPayoutRow>) => {
+    const current = loadBatches()[key]
+    if (!current) return
+    const next = {
+      ...current,
+      rows: current.rows.map((row, i) => (i === index ? { ...row, ...updates } : row))
+    }
+    saveBatch(key, next)
+    setBatch(next)
+  }, [key])
+
+  const clearBatch = useCallback(() => {
+    saveBatch(key, null)
+    setBatch(null)
+  }, [key])
+
+  const completed = batch ? batch.rows.filter(row => row.status === 'confirmed').length : 0
+  const isUnfinished = batch !== null && completed < batch.rows.length
+
+  return { batch, completed, isUnfinished, startBatch, updateRow, clearBatch }
+}
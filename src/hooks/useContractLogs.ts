@@ -0,0 +1,594 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { ethers } from 'ethers'
+import { request, gql } from 'graphql-request'
+import { useNotification } from './useNotification'
+import {
+  GRAPH_URL,
+  fetchSubgraphMeta,
+  getEventEntityMapping,
+  getOrderField,
+  isIndexedContract,
+  selectEntityFields,
+  type EventEntityMapping
+} from '../utils/subgraph'
+import { queryEventsBackward } from '../utils/eventLogs'
+import { getBlockHeader, getBlockHeaders, mapWithConcurrency, RPC_CONCURRENCY } from '../utils/blockCache'
+
+// 合约日志对应的事件及其参数字段
+export const LOG_EVENT_NAME = 'Instructor'
+const LOG_EVENT_FIELDS = ['name', 'age']
+const LOG_ENTITY_FIELDS = ['id', 'transactionHash', 'logIndex', 'blockNumber', 'blockTimestamp', 'name', 'age', 'from']
+const PAGE_SIZE = 10
+// 实时事件写入后，等待子图索引再核对的间隔
+const RECONCILE_DELAY = 15000
+// 子图落后时通过RPC补齐的最大区块数，落后更多时只补齐最近的区块
+const MAX_GAP_BLOCKS = 50000
+
+export interface ContractLog {
+  id: string
+  transactionHash?: string
+  // 交易内的日志序号；子图实体没有该字段时从 id 推断
+  logIndex?: string
+  blockNumber?: string
+  blockTimestamp?: string
+  name?: string
+  age?: string
+  from?: string
+  source: 'subgraph' | 'rpc'
+  // 实时订阅收到、尚未与子图核对的记录
+  isNew?: boolean
+}
+
+export interface LogFilters {
+  nameContains: string
+  ageGte: string
+  from: string
+}
+
+export interface IndexingStatus {
+  subgraphBlock: number | null
+  chainHead: number | null
+  hasIndexingErrors: boolean
+  // 落后超过 MAX_GAP_BLOCKS 时，RPC 补齐的最低区块；更早的未索引事件不会显示
+  gapFilledFrom: number | null
+}
+
+interface LogCursor {
+  // 子图分页：上一页最后一条记录的排序值，以及该值下已加载的id（处理排序值相同的记录）
+  subgraph?: { value: string; ids: string[] }
+  // RPC分页：下一次向前扫描的最高区块
+  rpcToBlock?: number
+}
+
+interface LogPage {
+  logs: ContractLog[]
+  // null 表示没有更多数据
+  cursor: LogCursor | null
+}
+
+export const EMPTY_FILTERS: LogFilters = { nameContains: '', ageGte: '', from: '' }
+
+// 加载子图中事件对应的实体映射（内省结果已缓存），失败时返回诊断信息
+async function loadLogMapping() {
+  try {
+    const mapping = await getEventEntityMapping(LOG_EVENT_NAME, LOG_EVENT_FIELDS)
+    return { mapping, error: '' }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '子图结构不匹配'
+    console.error('子图结构诊断:', message)
+    return { mapping: null, error: message }
+  }
+}
+
+function buildSubgraphFilter(
+  mapping: EventEntityMapping,
+  filters: LogFilters,
+  after?: LogCursor['subgraph']
+): Record<string, unknown> {
+  const where: Record<string, unknown> = {}
+  if (filters.nameContains && 'name' in mapping.fields) {
+    where.name_contains = filters.nameContains
+  }
+  if (filters.ageGte && 'age' in mapping.fields) {
+    where.age_gte = filters.ageGte
+  }
+  if (filters.from && 'from' in mapping.fields) {
+    where.from = filters.from.toLowerCase()
+  }
+  if (after) {
+    where[`${getOrderField(mapping)}_lte`] = after.value
+    where.id_not_in = after.ids
+  }
+  return where
+}
+
+async function fetchSubgraphPage(
+  mapping: EventEntityMapping,
+  filters: LogFilters,
+  after?: LogCursor['subgraph']
+): Promise<LogPage> {
+  const orderField = getOrderField(mapping) as keyof ContractLog
+  const fields = selectEntityFields(mapping, LOG_ENTITY_FIELDS)
+  const { filterType } = mapping
+
+  const query = gql`
+    query GetEvents($first: Int!${filterType ? `, $where: ${filterType}` : ''}) {
+      ${mapping.listField}(
+        first: $first
+        orderBy: ${orderField}
+        orderDirection: desc
+        ${filterType ? 'where: $where' : ''}
+      ) {
+        ${fields.join('\n')}
+      }
+    }
+  `
+
+  console.log(`查询子图实体 ${mapping.entity}, 每页: ${PAGE_SIZE}条`)
+  const data: Record<string, Omit<ContractLog, 'source'>[]> = await request(GRAPH_URL, query, {
+    first: PAGE_SIZE,
+    ...(filterType ? { where: buildSubgraphFilter(mapping, filters, after) } : {})
+  })
+  const logs = (data[mapping.listField] || []).map(log => ({ ...log, source: 'subgraph' as const }))
+
+  // 没有 where 参数时无法继续翻页
+  if (logs.length < PAGE_SIZE || !filterType) {
+    return { logs, cursor: null }
+  }
+
+  const value = String(logs[logs.length - 1][orderField])
+  const ids = logs.filter(log => String(log[orderField]) === value).map(log => log.id)
+  return {
+    logs,
+    cursor: {
+      subgraph: {
+        value,
+        ids: after && after.value === value ? [...after.ids, ...ids] : ids
+      }
+    }
+  }
+}
+
+// RPC结果只能在客户端过滤
+function matchesFilters(log: ContractLog, filters: LogFilters): boolean {
+  if (filters.nameContains && !log.name?.includes(filters.nameContains)) return false
+  if (filters.ageGte && BigInt(log.age || '0') < BigInt(filters.ageGte)) return false
+  if (filters.from && log.from?.toLowerCase() !== filters.from.toLowerCase()) return false
+  return true
+}
+
+// 将RPC查询到的事件转换为日志记录，同一区块、同一交易只查询一次
+async function toRpcLogs(
+  provider: ethers.Provider,
+  events: ethers.EventLog[]
+): Promise<ContractLog[]> {
+  const txHashes = [...new Set(events.map(event => event.transactionHash))]
+  const [blocks, transactions] = await Promise.all([
+    getBlockHeaders(provider, events.map(event => event.blockNumber)),
+    mapWithConcurrency(txHashes, RPC_CONCURRENCY, hash => provider.getTransaction(hash))
+  ])
+  const senders = new Map(
+    transactions.filter(tx => tx !== null).map(tx => [tx.hash, tx.from])
+  )
+
+  return events.map(event => ({
+    id: `${event.transactionHash}-${event.index}`,
+    transactionHash: event.transactionHash,
+    logIndex: event.index.toString(),
+    blockNumber: event.blockNumber.toString(),
+    blockTimestamp: blocks.get(event.blockNumber)?.timestamp.toString(),
+    name: String(event.args[0]),
+    age: String(event.args[1]),
+    from: senders.get(event.transactionHash),
+    source: 'rpc'
+  }))
+}
+
+// 按交易哈希从子图查询实体，用于核对实时事件是否已被索引
+async function fetchSubgraphLogsByHashes(
+  mapping: EventEntityMapping,
+  hashes: string[]
+): Promise<ContractLog[]> {
+  const hashType = mapping.fields.transactionHash
+  if (!hashType || hashes.length === 0) return []
+
+  const fields = selectEntityFields(mapping, LOG_ENTITY_FIELDS)
+  const query = gql`
+    query GetEventsByHashes($hashes: [${hashType}!]!) {
+      ${mapping.listField}(where: { transactionHash_in: $hashes }) {
+        ${fields.join('\n')}
+      }
+    }
+  `
+  const data: Record<string, Omit<ContractLog, 'source'>[]> = await request(GRAPH_URL, query, {
+    hashes: hashes.map(hash => hash.toLowerCase())
+  })
+  return (data[mapping.listField] || []).map(log => ({ ...log, source: 'subgraph' as const }))
+}
+
+// 事件的唯一标识：交易哈希 + 日志序号。子图实体没有 logIndex 字段时，从常见的 id 格式推断：
+// 交易哈希拼接小端序 logIndex（graph-cli 默认），或 "哈希-序号"；都不符合时退回到事件内容
+function logIdentity(log: ContractLog): string {
+  const hash = log.transactionHash?.toLowerCase()
+  let logIndex = log.logIndex
+  if (logIndex === undefined && ethers.isHexString(log.id, 36)) {
+    logIndex = ethers.toBigInt(ethers.getBytes(log.id).slice(32).reverse()).toString()
+  }
+  if (logIndex === undefined) {
+    logIndex = /^0x[0-9a-fA-F]{64}-(\d+)$/.exec(log.id)?.[1]
+  }
+  return logIndex !== undefined ? `${hash}:${logIndex}` : `${hash}:${log.name}:${log.age}`
+}
+
+// 合并子图和RPC结果，同一事件只保留先出现的记录，按区块从新到旧排序
+export function mergeContractLogs(existing: ContractLog[], incoming: ContractLog[]): ContractLog[] {
+  const seen = new Set(existing.map(logIdentity))
+  const merged = [...existing, ...incoming.filter(log => !seen.has(logIdentity(log)))]
+  return merged.sort(
+    (a, b) => parseInt(b.blockNumber || '0') - parseInt(a.blockNumber || '0')
+  )
+}
+
+// 用子图中已索引的记录替换对应的实时记录，去掉重复项
+function reconcileLiveLogs(existing: ContractLog[], indexed: ContractLog[]): ContractLog[] {
+  const indexedHashes = new Set(indexed.map(log => log.transactionHash?.toLowerCase()))
+  const remaining = existing.filter(
+    log => !(log.isNew && indexedHashes.has(log.transactionHash?.toLowerCase()))
+  )
+  return mergeContractLogs(remaining, indexed)
+}
+
+interface UseContractLogsOptions {
+  provider: ethers.BrowserProvider | null
+  contractAddress: string
+  contractABI: ethers.InterfaceAbi
+}
+
+// Hook for loading contract event logs from the subgraph with RPC fallback and pagination
+export function useContractLogs({ provider, contractAddress, contractABI }: UseContractLogsOptions) {
+  const { showError, showSuccess, showWarning } = useNotification()
+  const [logs, setLogs] = useState<ContractLog[]>([])
+  const [schemaError, setSchemaError] = useState<string>('')
+  const [logsError, setLogsError] = useState<string>('')
+  const [indexingStatus, setIndexingStatus] = useState<IndexingStatus | null>(null)
+  const [mapping, setMapping] = useState<EventEntityMapping | null>(null)
+  const [filters, setFilters] = useState<LogFilters>(EMPTY_FILTERS)
+  const [cursor, setCursor] = useState<LogCursor | null>(null)
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false)
+  const [isLive, setLive] = useState<boolean>(true)
+  // 丢弃过期请求的结果（例如加载过程中修改了过滤条件）
+  const requestIdRef = useRef(0)
+  const filtersRef = useRef<LogFilters>(EMPTY_FILTERS)
+  // 实时收到、等待子图索引的交易哈希
+  const pendingLiveRef = useRef<Set<string>>(new Set())
+
+  const iface = useMemo(() => new ethers.Interface(contractABI), [contractABI])
+  const hasLogEvent = useMemo(() => iface.getEvent(LOG_EVENT_NAME) !== null, [iface])
+  // 子图只索引固定的一个合约，选中其他合约时不能使用子图的数据
+  const useSubgraph = isIndexedContract(contractAddress)
+
+  // 通过RPC直接查询事件，用于子图不可用或落后时补齐
+  const fetchRpcPage = useCallback(async (
+    activeFilters: LogFilters,
+    toBlock: number,
+    fromBlock?: number
+  ): Promise<LogPage> => {
+    if (!provider || !contractAddress || !hasLogEvent) {
+      return { logs: [], cursor: null }
+    }
+    const contract = new ethers.Contract(contractAddress, contractABI, provider)
+    const { events, scannedFrom } = await queryEventsBackward(contract, LOG_EVENT_NAME, {
+      toBlock,
+      fromBlock,
+      limit: PAGE_SIZE
+    })
+    const rpcLogs = (await toRpcLogs(provider, events)).filter(log => matchesFilters(log, activeFilters))
+    const reachedLowerBound = fromBlock !== undefined ? scannedFrom <= fromBlock : scannedFrom <= 0
+    return {
+      logs: rpcLogs,
+      cursor: reachedLowerBound ? null : { rpcToBlock: scannedFrom - 1 }
+    }
+  }, [provider, contractAddress, contractABI, hasLogEvent])
+
+  const refresh = useCallback(async (activeFilters: LogFilters = filtersRef.current) => {
+    const requestId = ++requestIdRef.current
+    if (!hasLogEvent) {
+      setLogs([])
+      setCursor(null)
+      setIndexingStatus(null)
+      setSchemaError('')
+      setLogsError('')
+      setMapping(null)
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+
+    try {
+      const { mapping: loadedMapping, error } = useSubgraph ? await loadLogMapping() : { mapping: null, error: '' }
+      if (requestId !== requestIdRef.current) return
+      setSchemaError(error)
+      setMapping(loadedMapping)
+      if (!useSubgraph) {
+        setLogsError('')
+      }
+
+      let page: LogPage = { logs: [], cursor: null }
+      let subgraphAvailable = false
+
+      if (loadedMapping) {
+        try {
+          page = await fetchSubgraphPage(loadedMapping, activeFilters)
+          subgraphAvailable = true
+          setLogsError('')
+        } catch (queryError) {
+          console.error('查询合约日志失败:', queryError)
+          setLogsError(queryError instanceof Error ? queryError.message : '未知错误')
+        }
+      }
+
+      // 比较子图索引高度和链上最新高度
+      const [meta, chainHead] = await Promise.all([
+        useSubgraph
+          ? fetchSubgraphMeta().catch(metaError => {
+              console.error('查询子图元数据失败:', metaError)
+              return null
+            })
+          : Promise.resolve(null),
+        provider ? provider.getBlockNumber().catch(() => null) : Promise.resolve(null)
+      ])
+      if (requestId !== requestIdRef.current) return
+      setIndexingStatus(useSubgraph
+        ? {
+            subgraphBlock: meta?.blockNumber ?? null,
+            chainHead,
+            hasIndexingErrors: meta?.hasIndexingErrors ?? false,
+            gapFilledFrom: null
+          }
+        : null)
+
+      // 子图不可用时改为RPC分页；子图落后时只补齐未索引的区块
+      const rpcLogs: ContractLog[] = []
+      if (chainHead !== null) {
+        try {
+          if (!subgraphAvailable) {
+            page = await fetchRpcPage(activeFilters, chainHead)
+            console.log(`通过RPC获取到 ${page.logs.length} 条事件`)
+          } else if (meta && meta.blockNumber < chainHead) {
+            // 未索引的区间可能超过一页，逐页向前扫描直到子图已索引的区块，最多 MAX_GAP_BLOCKS 个区块
+            const gapFrom = Math.max(meta.blockNumber + 1, chainHead - MAX_GAP_BLOCKS + 1)
+            if (gapFrom > meta.blockNumber + 1) {
+              console.warn(`子图落后 ${chainHead - meta.blockNumber} 个区块，只通过RPC补齐 #${gapFrom} 之后的事件`)
+              setIndexingStatus(status => status && { ...status, gapFilledFrom: gapFrom })
+            }
+            let toBlock: number | undefined = chainHead
+            while (toBlock !== undefined) {
+              const gapPage = await fetchRpcPage(activeFilters, toBlock, gapFrom)
+              if (requestId !== requestIdRef.current) return
+              rpcLogs.push(...gapPage.logs)
+              toBlock = gapPage.cursor?.rpcToBlock
+            }
+            console.log(`通过RPC补齐 ${rpcLogs.length} 条未索引事件`)
+          }
+        } catch (rpcError) {
+          console.error('通过RPC查询事件失败:', rpcError)
+        }
+      }
+
+      if (requestId !== requestIdRef.current) return
+      // 保留尚未被查询结果覆盖的实时记录
+      setLogs(prev => mergeContractLogs(
+        mergeContractLogs(page.logs, rpcLogs),
+        prev.filter(log => log.isNew && matchesFilters(log, activeFilters))
+      ))
+      setCursor(page.cursor)
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false)
+      }
+    }
+  }, [provider, fetchRpcPage, hasLogEvent, useSubgraph])
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoading || isLoadingMore) return
+    const requestId = requestIdRef.current
+    setIsLoadingMore(true)
+
+    try {
+      let page: LogPage
+      if (cursor.subgraph && mapping) {
+        page = await fetchSubgraphPage(mapping, filters, cursor.subgraph)
+      } else if (cursor.rpcToBlock !== undefined) {
+        page = await fetchRpcPage(filters, cursor.rpcToBlock)
+      } else {
+        return
+      }
+
+      if (requestId !== requestIdRef.current) return
+      setLogs(prev => mergeContractLogs(prev, page.logs))
+      setCursor(page.cursor)
+    } catch (error) {
+      console.error('加载更多日志失败:', error)
+      setLogsError(error instanceof Error ? error.message : '未知错误')
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [cursor, isLoading, isLoadingMore, mapping, filters, fetchRpcPage])
+
+  const applyFilters = useCallback((next: LogFilters) => {
+    filtersRef.current = next
+    setFilters(next)
+    refresh(next)
+  }, [refresh])
+
+  // 组件初始化及连接变化时查询
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // 实时订阅合约事件，新记录插入列表顶部，稍后与子图核对去重
+  useEffect(() => {
+    if (!isLive || !provider || !contractAddress || !hasLogEvent) return
+
+    const contract = new ethers.Contract(contractAddress, contractABI, provider)
+    const pending = pendingLiveRef.current
+    let reconcileTimer: ReturnType<typeof setTimeout> | null = null
+    let disposed = false
+
+    const reconcile = async () => {
+      reconcileTimer = null
+      const { mapping: loadedMapping } = await loadLogMapping()
+      if (disposed || !loadedMapping || pending.size === 0) return
+
+      try {
+        const indexed = await fetchSubgraphLogsByHashes(loadedMapping, [...pending])
+        if (disposed) return
+        indexed.forEach(log => log.transactionHash && pending.delete(log.transactionHash.toLowerCase()))
+        setLogs(prev => reconcileLiveLogs(
+          prev,
+          indexed.filter(log => matchesFilters(log, filtersRef.current))
+        ))
+      } catch (error) {
+        console.error('核对实时事件失败:', error)
+      }
+
+      // 子图仍未索引的记录稍后再核对
+      if (!disposed && pending.size > 0) scheduleReconcile()
+    }
+
+    const scheduleReconcile = () => {
+      if (reconcileTimer === null) {
+        reconcileTimer = setTimeout(reconcile, RECONCILE_DELAY)
+      }
+    }
+
+    const listener = async (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ethers.ContractEventPayload
+      try {
+        const [log] = await toRpcLogs(provider, [payload.log])
+        if (disposed) return
+        console.log('收到实时事件:', log.transactionHash)
+        if (matchesFilters(log, filtersRef.current)) {
+          setLogs(prev => mergeContractLogs(prev, [{ ...log, isNew: true }]))
+        }
+        if (useSubgraph && log.transactionHash) {
+          pending.add(log.transactionHash.toLowerCase())
+          scheduleReconcile()
+        }
+      } catch (error) {
+        console.error('处理实时事件失败:', error)
+      }
+    }
+
+    contract.on(LOG_EVENT_NAME, listener)
+    return () => {
+      disposed = true
+      if (reconcileTimer !== null) clearTimeout(reconcileTimer)
+      pending.clear()
+      contract.off(LOG_EVENT_NAME, listener)
+    }
+  }, [isLive, provider, contractAddress, contractABI, hasLogEvent, useSubgraph])
+
+  // 子图不可用时通过交易回执解析事件
+  const queryRpcLogsByHash = async (txHash: string): Promise<ContractLog[]> => {
+    if (!provider || !hasLogEvent) return []
+    const receipt = await provider.getTransactionReceipt(txHash)
+    if (!receipt) return []
+
+    const [block, tx] = await Promise.all([
+      getBlockHeader(provider, receipt.blockNumber),
+      provider.getTransaction(txHash)
+    ])
+    return receipt.logs
+      .filter(log => log.address.toLowerCase() === contractAddress.toLowerCase())
+      .map(log => {
+        const parsed = iface.parseLog({ topics: [...log.topics], data: log.data })
+        if (!parsed || parsed.name !== LOG_EVENT_NAME) return null
+        return {
+          id: `${log.transactionHash}-${log.index}`,
+          transactionHash: log.transactionHash,
+          logIndex: log.index.toString(),
+          blockNumber: log.blockNumber.toString(),
+          blockTimestamp: block ? block.timestamp.toString() : undefined,
+          name: String(parsed.args[0]),
+          age: String(parsed.args[1]),
+          from: tx?.from,
+          source: 'rpc' as const
+        }
+      })
+      .filter(log => log !== null)
+  }
+
+  const queryByHash = async (txHash: string) => {
+    if (!txHash || txHash.length !== 66) {
+      showError('请输入有效的交易哈希 (0x开头的66位字符串)')
+      return
+    }
+
+    requestIdRef.current++
+    const { mapping: loadedMapping, error } = useSubgraph ? await loadLogMapping() : { mapping: null, error: '' }
+    setSchemaError(error)
+
+    let found: ContractLog[] | null = null
+
+    if (loadedMapping?.fields.transactionHash) {
+      const fields = selectEntityFields(loadedMapping, LOG_ENTITY_FIELDS)
+      const query = gql`
+        query GetTransactionByHash($txHash: ${loadedMapping.fields.transactionHash}!) {
+          ${loadedMapping.listField}(where: { transactionHash: $txHash }) {
+            ${fields.join('\n')}
+          }
+        }
+      `
+
+      try {
+        console.log(`按交易哈希查询: ${txHash}`)
+        const data: Record<string, Omit<ContractLog, 'source'>[]> = await request(GRAPH_URL, query, {
+          txHash: txHash.toLowerCase()
+        })
+        found = (data[loadedMapping.listField] || []).map(log => ({ ...log, source: 'subgraph' as const }))
+      } catch (queryError) {
+        console.error('按交易哈希查询子图失败:', queryError)
+      }
+    }
+
+    // 子图无法查询或尚未索引该交易时，回退到RPC
+    if (!found || found.length === 0) {
+      try {
+        found = await queryRpcLogsByHash(txHash)
+      } catch (rpcError) {
+        console.error('通过RPC查询交易失败:', rpcError)
+        showError('查询失败: ' + (rpcError instanceof Error ? rpcError.message : '未知错误'))
+        return
+      }
+    }
+
+    setCursor(null)
+    if (found.length > 0) {
+      setLogs(found)
+      showSuccess(`成功找到 ${found.length} 条相关记录`)
+    } else {
+      showWarning('未找到该交易的记录，请检查交易哈希是否正确')
+      setLogs([])
+    }
+  }
+
+  return {
+    logs,
+    schemaError,
+    logsError,
+    indexingStatus,
+    supportsFromFilter: mapping ? 'from' in mapping.fields : true,
+    filters,
+    applyFilters,
+    hasMore: cursor !== null,
+    isLoading,
+    isLoadingMore,
+    isLive,
+    setLive,
+    refresh,
+    loadMore,
+    queryByHash
+  }
+}
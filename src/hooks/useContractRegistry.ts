@@ -0,0 +1,132 @@
+import { useState, useCallback } from 'react'
+import { ethers } from 'ethers'
+import InfoContractArtifact from '../../InfoContract.json'
+import { parseContractArtifact, type ArtifactFormat, type ParsedArtifact } from '../utils/artifacts'
+
+export interface StoredContract {
+  id: string
+  name: string
+  format: ArtifactFormat
+  abi: ethers.JsonFragment[]
+  bytecode?: string
+  // 以十六进制 chainId 为键的部署地址（内置合约只保存用户手动登记的地址）
+  addresses: Record<string, string>
+  // 当前链没有登记地址时使用的地址（仅内置合约使用环境变量配置）
+  defaultAddress?: string
+  // 内置合约 artifact 中的部署地址，优先级低于环境变量，不保存
+  artifactAddresses?: Record<string, string>
+  createdAt: number
+}
+
+const CONTRACTS_KEY = 'datachain_contracts'
+const SELECTED_CONTRACT_KEY = 'datachain_selected_contract'
+const BUILTIN_CONTRACT_ID = 'builtin-info-contract'
+const BUILTIN_FALLBACK_ADDRESS = '0x843F2a4Dce76F8adC235f4D8B1775338f8318CA7'
+
+// 内置合约每次加载时按当前的 artifact 和环境变量重建，只沿用用户登记的地址
+function createBuiltinContract(saved?: StoredContract): StoredContract {
+  const { addresses: artifactAddresses, ...parsed } = parseContractArtifact(InfoContractArtifact)
+  // 旧版本把 artifact 中的地址也保存在 addresses 里，与 artifact 相同的不算用户登记
+  const addresses = Object.fromEntries(
+    Object.entries(saved?.addresses ?? {}).filter(
+      ([chainId, address]) => artifactAddresses[chainId]?.toLowerCase() !== address.toLowerCase()
+    )
+  )
+  return {
+    id: BUILTIN_CONTRACT_ID,
+    ...parsed,
+    addresses,
+    artifactAddresses,
+    defaultAddress: import.meta.env.VITE_CONTRACT_ADDRESS || undefined,
+    createdAt: 0
+  }
+}
+
+function loadContracts(): StoredContract[] {
+  const saved = localStorage.getItem(CONTRACTS_KEY)
+  if (saved) {
+    try {
+      const contracts = JSON.parse(saved) as StoredContract[]
+      const builtin = contracts.find(c => c.id === BUILTIN_CONTRACT_ID)
+      return [createBuiltinContract(builtin), ...contracts.filter(c => c.id !== BUILTIN_CONTRACT_ID)]
+    } catch (error) {
+      console.error('读取已保存的合约失败:', error)
+    }
+  }
+  return [createBuiltinContract()]
+}
+
+// 用户登记的地址优先；内置合约其次使用环境变量 VITE_CONTRACT_ADDRESS，再使用 artifact 中的地址
+export function resolveContractAddress(contract: StoredContract | undefined, chainId: string): string {
+  if (!contract) return ''
+  if (contract.addresses[chainId]) return contract.addresses[chainId]
+  if (contract.id === BUILTIN_CONTRACT_ID) {
+    return contract.defaultAddress || contract.artifactAddresses?.[chainId] || BUILTIN_FALLBACK_ADDRESS
+  }
+  return contract.defaultAddress || ''
+}
+
+// Hook for managing imported contract artifacts and their per-chain addresses
+export function useContractRegistry() {
+  const [contracts, setContracts] = useState<StoredContract[]>(loadContracts)
+  const [selectedId, setSelectedId] = useState<string>(
+    () => localStorage.getItem(SELECTED_CONTRACT_KEY) || BUILTIN_CONTRACT_ID
+  )
+
+  // 在状态更新函数之外保存，更新函数保持纯函数
+  const persistContracts = useCallback((next: StoredContract[]) => {
+    // 内置合约的 artifact 地址和环境变量不保存，下次加载时重新读取
+    localStorage.setItem(CONTRACTS_KEY, JSON.stringify(next.map(contract =>
+      contract.id === BUILTIN_CONTRACT_ID ? { ...contract, artifactAddresses: undefined, defaultAddress: undefined } : contract
+    )))
+    setContracts(next)
+  }, [])
+
+  const selectContract = useCallback((id: string) => {
+    setSelectedId(id)
+    localStorage.setItem(SELECTED_CONTRACT_KEY, id)
+  }, [])
+
+  const addContract = useCallback((artifact: ParsedArtifact, addresses: Record<string, string> = {}) => {
+    const contract: StoredContract = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      ...artifact,
+      addresses: { ...artifact.addresses, ...addresses },
+      createdAt: Date.now()
+    }
+    persistContracts([...contracts, contract])
+    return contract
+  }, [contracts, persistContracts])
+
+  const setContractAddress = useCallback((id: string, chainId: string, address: string) => {
+    persistContracts(contracts.map(contract => {
+      if (contract.id !== id) return contract
+      const addresses = { ...contract.addresses }
+      if (address) {
+        addresses[chainId] = address
+      } else {
+        delete addresses[chainId]
+      }
+      return { ...contract, addresses }
+    }))
+  }, [contracts, persistContracts])
+
+  const removeContract = useCallback((id: string) => {
+    if (id === BUILTIN_CONTRACT_ID) return
+    persistContracts(contracts.filter(contract => contract.id !== id))
+    if (id === selectedId) {
+      selectContract(BUILTIN_CONTRACT_ID)
+    }
+  }, [contracts, persistContracts, selectedId, selectContract])
+
+  const selectedContract = contracts.find(c => c.id === selectedId) || contracts[0]
+
+  return {
+    contracts,
+    selectedContract,
+    selectContract,
+    addContract,
+    setContractAddress,
+    removeContract
+  }
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ethers } from 'ethers'
+import { fetchFeeSuggestion, type FeePreset, type FeeSuggestion, type FeeValues } from '../utils/fees'
+
+export interface CustomFeeInput {
+  // 以 gwei 为单位的字符串
+  maxFeePerGas: string
+  maxPriorityFeePerGas: string
+  gasPrice: string
+}
+
+export type FeeOverrides = Pick<
+  ethers.TransactionRequest,
+  'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice' | 'gasLimit'
+>
+
+const EMPTY_CUSTOM_FEE: CustomFeeInput = { maxFeePerGas: '', maxPriorityFeePerGas: '', gasPrice: '' }
+
+function parseGwei(value: string, label: string): bigint {
+  try {
+    const parsed = ethers.parseUnits(value.trim(), 'gwei')
+    if (parsed <= 0n) throw new Error()
+    return parsed
+  } catch {
+    throw new Error(`${label} 必须是大于0的数字 (gwei)`)
+  }
+}
+
+function resolveCustomFee(custom: CustomFeeInput, supports1559: boolean): FeeValues {
+  if (!supports1559) {
+    return { gasPrice: parseGwei(custom.gasPrice, 'Gas Price') }
+  }
+  const maxFeePerGas = parseGwei(custom.maxFeePerGas, 'Max Fee')
+  const maxPriorityFeePerGas = parseGwei(custom.maxPriorityFeePerGas, 'Priority Fee')
+  if (maxPriorityFeePerGas > maxFeePerGas) {
+    throw new Error('Priority Fee 不能高于 Max Fee')
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas }
+}
+
+// Hook for choosing gas fees and gas limit shared by every send flow
+export function useFeeSettings(provider: ethers.Provider | null) {
+  const [suggestion, setSuggestion] = useState<FeeSuggestion | null>(null)
+  const [preset, setPreset] = useState<FeePreset>('normal')
+  const [custom, setCustom] = useState<CustomFeeInput>(EMPTY_CUSTOM_FEE)
+  const [gasLimit, setGasLimit] = useState<string>('')
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [loadError, setLoadError] = useState<string>('')
+
+  const refresh = useCallback(async () => {
+    if (!provider) return
+    try {
+      setIsLoading(true)
+      setSuggestion(await fetchFeeSuggestion(provider))
+      setLoadError('')
+    } catch (error) {
+      console.error('获取Gas费用失败:', error)
+      setLoadError(error instanceof Error ? error.message : '获取Gas费用失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [provider])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const supports1559 = suggestion?.supports1559 ?? true
+
+  // 当前选择对应的费用；自定义输入无效时为 null 并给出原因
+  let values: FeeValues | null = null
+  let inputError = ''
+  try {
+    if (preset === 'custom') {
+      values = resolveCustomFee(custom, supports1559)
+    } else if (suggestion) {
+      values = suggestion.presets[preset]
+    }
+    if (gasLimit.trim() && !/^[1-9]\d*$/.test(gasLimit.trim())) {
+      throw new Error('Gas Limit 必须是正整数')
+    }
+  } catch (error) {
+    values = null
+    inputError = error instanceof Error ? error.message : '费用设置无效'
+  }
+
+  // 生成交易的费用字段；费用尚未加载时交给钱包决定
+  const getOverrides = (): FeeOverrides => {
+    if (inputError) {
+      throw new Error(inputError)
+    }
+    const overrides: FeeOverrides = {}
+    if (values?.gasPrice !== undefined) {
+      overrides.gasPrice = values.gasPrice
+    } else if (values) {
+      overrides.maxFeePerGas = values.maxFeePerGas
+      overrides.maxPriorityFeePerGas = values.maxPriorityFeePerGas
+    }
+    if (gasLimit.trim()) {
+      overrides.gasLimit = BigInt(gasLimit.trim())
+    }
+    return overrides
+  }
+
+  return {
+    suggestion,
+    supports1559,
+    preset,
+    setPreset,
+    custom,
+    setCustom,
+    gasLimit,
+    setGasLimit,
+    values,
+    inputError,
+    isLoading,
+    loadError,
+    refresh,
+    getOverrides
+  }
+}
+
+export type FeeSettings = ReturnType<typeof useFeeSettings>
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react'
+import { queryHistory, subscribeHistory, type HistoryQuery, type HistoryRecord } from '../utils/historyRepository'
+
+// Hook for querying transaction history, re-running the query whenever the store changes
+export function useHistory(query: HistoryQuery) {
+  const { hash, account, chainId, token, type } = query
+  const [records, setRecords] = useState<HistoryRecord[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+
+  const reload = useCallback(async () => {
+    try {
+      setRecords(await queryHistory({ hash, account, chainId, token, type }))
+    } catch (error) {
+      console.error('查询交易历史失败:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [hash, account, chainId, token, type])
+
+  useEffect(() => {
+    reload()
+    return subscribeHistory(reload)
+  }, [reload])
+
+  return { records, isLoading, reload }
+}
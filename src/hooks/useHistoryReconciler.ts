@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react'
+import { ethers } from 'ethers'
+import { useNotification } from './useNotification'
+import { reconcileHistory } from '../utils/historyReconciler'
+
+// Hook for reconciling stored history with receipts on start and on every new block
+export function useHistoryReconciler(provider: ethers.Provider | null, chainId: string) {
+  const { showWarning } = useNotification()
+  // 上一轮核对还没结束时跳过新区块，避免同一条记录被并发更新
+  const runningRef = useRef(false)
+  // 通知函数每次渲染都会变化，通过 ref 读取，避免重复订阅区块事件
+  const showWarningRef = useRef(showWarning)
+
+  useEffect(() => {
+    showWarningRef.current = showWarning
+  }, [showWarning])
+
+  useEffect(() => {
+    if (!provider) return
+    let disposed = false
+
+    const run = async (blockNumber?: number) => {
+      if (runningRef.current) return
+      runningRef.current = true
+      try {
+        const currentBlock = blockNumber ?? await provider.getBlockNumber()
+        const { updated, reorged } = await reconcileHistory(provider, chainId, currentBlock)
+        if (updated > 0) {
+          console.log(`已核对 ${updated} 条交易记录，当前区块 ${currentBlock}`)
+        }
+        if (!disposed && reorged.length > 0) {
+          showWarningRef.current(
+            `检测到链重组：${reorged.length} 笔已确认的交易所在区块发生变化\n` +
+              reorged.map(record => record.hash.slice(0, 10) + '...').join('\n')
+          )
+        }
+      } catch (error) {
+        console.error('核对交易记录失败:', error)
+      } finally {
+        runningRef.current = false
+      }
+    }
+
+    const handleBlock = (blockNumber: number) => {
+      run(blockNumber)
+    }
+
+    run()
+    provider.on('block', handleBlock)
+    return () => {
+      disposed = true
+      provider.off('block', handleBlock)
+    }
+  }, [provider, chainId])
+}
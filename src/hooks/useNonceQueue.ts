@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from 'react'
+import { ethers } from 'ethers'
+import {
+  clearSettledEntries,
+  getNonceQueueSnapshot,
+  resolveStoredEntries,
+  subscribeNonceQueue,
+  type QueueEntry
+} from '../utils/nonceQueue'
+
+interface NonceCounts {
+  // 已打包的交易数，即下一笔可被打包的 nonce
+  latest: number
+  // 节点已知的交易数（包括交易池中的交易）
+  pending: number
+}
+
+const NONCE_CHECK_INTERVAL = 15000
+
+// Hook for the current account's transaction queue and nonce gap diagnostics
+export function useNonceQueue(provider: ethers.Provider | null, account: string, chainId: string) {
+  const allEntries = useSyncExternalStore(subscribeNonceQueue, getNonceQueueSnapshot)
+  const [counts, setCounts] = useState<NonceCounts | null>(null)
+  const [checkError, setCheckError] = useState<string>('')
+
+  const entries = useMemo(
+    () => allEntries.filter(entry => entry.chainId === chainId && entry.account === account.toLowerCase()),
+    [allEntries, chainId, account]
+  )
+
+  const checkNonces = useCallback(async () => {
+    if (!provider || !account) return
+    try {
+      const [latest, pending] = await Promise.all([
+        provider.getTransactionCount(account, 'latest'),
+        provider.getTransactionCount(account, 'pending')
+      ])
+      setCounts({ latest, pending })
+      setCheckError('')
+    } catch (error) {
+      console.error('查询账户 nonce 失败:', error)
+      setCheckError(error instanceof Error ? error.message : '查询 nonce 失败')
+    }
+  }, [provider, account])
+
+  // 页面刷新前保存的未完成记录先按链上状态结束，避免用过期数据诊断丢弃和空缺
+  useEffect(() => {
+    if (!provider || !account) return
+    resolveStoredEntries(provider, chainId, account).catch(error => console.error('核对保存的交易队列失败:', error))
+  }, [provider, chainId, account])
+
+  // 队列变化时立即核对一次，之后定期核对
+  const pendingKey = entries.filter(entry => entry.state === 'pending').map(entry => entry.id).join(',')
+  useEffect(() => {
+    checkNonces()
+    const timer = setInterval(checkNonces, NONCE_CHECK_INTERVAL)
+    return () => clearInterval(timer)
+  }, [checkNonces, pendingKey])
+
+  const pendingEntries = entries.filter(entry => entry.state === 'pending' && entry.nonce !== null)
+
+  // 本地已广播、但节点交易池里找不到的交易（可能被丢弃）
+  const dropped: QueueEntry[] = counts
+    ? pendingEntries.filter(entry => (entry.nonce as number) >= counts.pending)
+    : []
+
+  // 比本地最高 nonce 小、但节点和本地都没有的 nonce，后续交易会一直卡住
+  const gaps: number[] = []
+  if (counts && pendingEntries.length > 0) {
+    const localNonces = new Set(pendingEntries.map(entry => entry.nonce as number))
+    const maxNonce = Math.max(...localNonces)
+    for (let nonce = Math.max(counts.latest, counts.pending); nonce < maxNonce; nonce++) {
+      if (!localNonces.has(nonce)) gaps.push(nonce)
+    }
+  }
+
+  return {
+    entries,
+    counts,
+    checkError,
+    dropped,
+    gaps,
+    refresh: checkNonces,
+    clearSettled: () => clearSettledEntries(chainId, account)
+  }
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  fetchChainPortfolio,
+  type ChainPortfolio,
+  type PortfolioNetwork,
+  type PortfolioToken
+} from '../utils/portfolio'
+
+// Hook for native and token balances of every account on every configured network, read through each rpcUrl
+export function usePortfolio(
+  networks: PortfolioNetwork[],
+  accounts: string[],
+  // 十六进制 chainId -> 该网络上要查询的代币
+  tokensByChain: Record<string, PortfolioToken[]>
+) {
+  const [chains, setChains] = useState<ChainPortfolio[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
+  const generationRef = useRef(0)
+
+  useEffect(() => {
+    const generation = generationRef
+    return () => {
+      generation.current++
+    }
+  }, [])
+
+  const refresh = useCallback(async () => {
+    if (accounts.length === 0) return
+    const generation = ++generationRef.current
+    const isStale = () => generationRef.current !== generation
+
+    setIsLoading(true)
+    try {
+      // 各网络并行查询，先返回的先显示
+      await Promise.all(networks.map(async network => {
+        const result = await fetchChainPortfolio(network, accounts, tokensByChain[network.chainId] || [])
+        if (isStale()) return
+        setChains(current => {
+          const previous = current.find(chain => chain.chainId === network.chainId)
+          // 网络暂时不可用时保留上次的余额和时间，只标记错误
+          const next = result.error && previous ? { ...previous, error: result.error } : result
+          return networks
+            .map(item => (item.chainId === network.chainId ? next : current.find(chain => chain.chainId === item.chainId)))
+            .filter((chain): chain is ChainPortfolio => chain !== undefined)
+        })
+      }))
+      if (!isStale()) {
+        setLastUpdated(Date.now())
+      }
+    } finally {
+      if (!isStale()) {
+        setIsLoading(false)
+      }
+    }
+  }, [networks, accounts, tokensByChain])
+
+  return { chains, isLoading, lastUpdated, refresh }
+}
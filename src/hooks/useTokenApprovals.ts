@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { ethers } from 'ethers'
+import { findDeployBlock, scanLogsForward } from '../utils/eventLogs'
+import { mapWithConcurrency, RPC_CONCURRENCY } from '../utils/blockCache'
+import {
+  loadScanCheckpoint,
+  planScan,
+  saveScanCheckpoint,
+  type ScanCheckpoint
+} from '../utils/scanCheckpoints'
+import type { ScanToken } from './useTokenHistoryScanner'
+
+export interface TokenApproval {
+  symbol: string
+  tokenAddress: string
+  decimals: number
+  spender: string
+  // 链上当前的 allowance(owner, spender)，只保留大于 0 的
+  allowance: bigint
+}
+
+// 每个代币已扫描的 Approval 事件区块范围，范围之外的授权不会显示
+export interface ApprovalScanCoverage {
+  symbol: string
+  startBlock: number
+  // 已扫描到的区块（包含）
+  scannedTo: number
+  targetBlock: number
+}
+
+// 除扫描进度外还保存已发现的授权对象，增量扫描时不用回头重查
+interface ApprovalCheckpoint extends ScanCheckpoint {
+  spenders: string[]
+}
+
+// 早期版本只回溯最近的区块，换用新的键让旧检查点失效，从部署区块重新扫描
+const CHECKPOINT_KEY = 'datachain_approval_checkpoints_v2'
+
+const APPROVAL_TOPIC = ethers.id('Approval(address,address,uint256)')
+const ALLOWANCE_ABI = ['function allowance(address owner, address spender) view returns (uint256)']
+
+// Approval 事件的第三个 topic 是补齐到 32 字节的 spender 地址
+function spenderFromLog(log: ethers.Log): string | null {
+  const topic = log.topics[2]
+  return topic ? ethers.getAddress(ethers.dataSlice(topic, 12)) : null
+}
+
+export function approvalKey(approval: Pick<TokenApproval, 'tokenAddress' | 'spender'>): string {
+  return `${approval.tokenAddress.toLowerCase()}:${approval.spender.toLowerCase()}`
+}
+
+export function formatAllowance(allowance: bigint, decimals: number): string {
+  return allowance === ethers.MaxUint256 ? '无限' : ethers.formatUnits(allowance, decimals)
+}
+
+// Hook for the account's outstanding token allowances, rebuilt from Approval events and checked against allowance()
+export function useTokenApprovals(
+  provider: ethers.Provider | null,
+  chainId: string,
+  account: string,
+  tokens: ScanToken[]
+) {
+  const [approvals, setApprovals] = useState<TokenApproval[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  // 扫描出错的代币，授权列表可能不完整
+  const [failedTokens, setFailedTokens] = useState<string[]>([])
+  const [coverage, setCoverage] = useState<ApprovalScanCoverage[]>([])
+  const generationRef = useRef(0)
+
+  useEffect(() => {
+    setApprovals([])
+    setFailedTokens([])
+    setCoverage([])
+    setIsLoading(false)
+  }, [chainId, account])
+
+  useEffect(() => {
+    const generation = generationRef
+    return () => {
+      generation.current++
+    }
+  }, [provider, chainId, account])
+
+  const refresh = useCallback(async () => {
+    if (!provider || !account) return
+    const generation = ++generationRef.current
+    const isStale = () => generationRef.current !== generation
+    const updateCoverage = (item: ApprovalScanCoverage) => {
+      if (isStale()) return
+      setCoverage(current => current.some(entry => entry.symbol === item.symbol)
+        ? current.map(entry => (entry.symbol === item.symbol ? item : entry))
+        : [...current, item])
+    }
+
+    setIsLoading(true)
+    try {
+      const targetBlock = await provider.getBlockNumber()
+      const paddedAccount = ethers.zeroPadValue(account, 32)
+      const failed: string[] = []
+      const candidates: { token: ScanToken, spender: string }[] = []
+
+      for (const token of tokens) {
+        if (isStale()) return
+        const checkpoint = loadScanCheckpoint<ApprovalCheckpoint>(CHECKPOINT_KEY, chainId, token.address, account)
+        const spenders = new Set<string>(checkpoint?.spenders ?? [])
+
+        try {
+          // 授权可能在很久以前设置，首次扫描从代币合约部署的区块开始，节点不支持查询历史状态时从 0 开始
+          const deployBlock = checkpoint
+            ? undefined
+            : await findDeployBlock(provider, token.address, targetBlock).catch((error: unknown) => {
+                console.warn(`查找 ${token.symbol} 部署区块失败，从区块 0 开始扫描:`, error)
+                return 0
+              })
+          const plan = planScan(checkpoint, null, targetBlock, deployBlock)
+          updateCoverage({ symbol: token.symbol, startBlock: plan.startBlock, scannedTo: plan.fromBlock - 1, targetBlock })
+          await scanLogsForward({
+            fromBlock: plan.fromBlock,
+            toBlock: targetBlock,
+            chunkSize: plan.chunkSize,
+            fetchChunk: (fromBlock, toBlock) =>
+              provider.getLogs({ address: token.address, topics: [APPROVAL_TOPIC, paddedAccount], fromBlock, toBlock }),
+            onChunk: (logs, chunk) => {
+              logs.forEach(log => {
+                const spender = spenderFromLog(log)
+                if (spender) spenders.add(spender)
+              })
+              saveScanCheckpoint<ApprovalCheckpoint>(CHECKPOINT_KEY, chainId, token.address, account, {
+                startBlock: plan.startBlock,
+                lastBlock: chunk.toBlock,
+                chunkSize: chunk.chunkSize,
+                spenders: [...spenders]
+              })
+              updateCoverage({ symbol: token.symbol, startBlock: plan.startBlock, scannedTo: chunk.toBlock, targetBlock })
+            },
+            shouldStop: isStale
+          })
+        } catch (error) {
+          console.warn(`扫描 ${token.symbol} 授权事件失败:`, error)
+          failed.push(token.symbol)
+        }
+        spenders.forEach(spender => candidates.push({ token, spender }))
+      }
+
+      // 事件只说明曾经授权过，以链上当前额度为准；额度为 0（已撤销或已用完）的不显示
+      const results = await mapWithConcurrency(candidates, RPC_CONCURRENCY, async ({ token, spender }) => {
+        try {
+          const contract = new ethers.Contract(token.address, ALLOWANCE_ABI, provider)
+          const allowance: bigint = await contract.allowance(account, spender)
+          return { symbol: token.symbol, tokenAddress: token.address, decimals: token.decimals, spender, allowance }
+        } catch (error) {
+          console.warn(`查询 ${token.symbol} 对 ${spender} 的授权额度失败:`, error)
+          return null
+        }
+      })
+      if (isStale()) return
+      setApprovals(results.filter((item): item is TokenApproval => item !== null && item.allowance > 0n))
+      setFailedTokens(failed)
+    } catch (error) {
+      console.error('查询授权列表失败:', error)
+    } finally {
+      if (!isStale()) {
+        setIsLoading(false)
+      }
+    }
+  }, [provider, chainId, account, tokens])
+
+  return { approvals, isLoading, failedTokens, coverage, refresh }
+}
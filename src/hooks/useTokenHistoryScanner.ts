@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { ethers } from 'ethers'
+import { scanLogsForward } from '../utils/eventLogs'
+import { mergeHistoryRecords, type HistoryRecord } from '../utils/historyRepository'
+import { getBlockHeaders } from '../utils/blockCache'
+import {
+  getScanStartBlock,
+  loadScanCheckpoint,
+  planScan,
+  saveScanCheckpoint,
+  setScanStartBlock,
+  type ScanCheckpoint
+} from '../utils/scanCheckpoints'
+
+export interface ScanToken {
+  symbol: string
+  address: string
+  decimals: number
+}
+
+export interface TokenScanProgress {
+  symbol: string
+  startBlock: number
+  // 已扫描到的区块（包含），尚未开始时为 startBlock - 1
+  scannedTo: number
+  targetBlock: number
+  status: 'scanning' | 'done' | 'error'
+  error?: string
+}
+
+const CHECKPOINT_KEY = 'datachain_log_checkpoints'
+
+const TRANSFER_EVENT = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+])
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)')
+
+// 账户作为发送方或接收方的 Transfer 事件；两个方向分别查询
+async function fetchTransferLogs(
+  provider: ethers.Provider,
+  token: ScanToken,
+  account: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.Log[]> {
+  const paddedAccount = ethers.zeroPadValue(account, 32)
+  const [sent, received] = await Promise.all([
+    provider.getLogs({ address: token.address, topics: [TRANSFER_TOPIC, paddedAccount], fromBlock, toBlock }),
+    provider.getLogs({ address: token.address, topics: [TRANSFER_TOPIC, null, paddedAccount], fromBlock, toBlock })
+  ])
+  return [...sent, ...received]
+}
+
+async function logsToRecords(
+  provider: ethers.Provider,
+  logs: ethers.Log[],
+  token: ScanToken,
+  chainId: string,
+  account: string
+): Promise<HistoryRecord[]> {
+  const blocks = await getBlockHeaders(provider, logs.map(log => log.blockNumber))
+
+  // 同一笔交易中同一方向的多个 Transfer 合并为一条并累加数量，转出和转入分别记录；
+  // 账户给自己转账时发送和接收两次查询会返回同一条日志，按日志序号去重，并计为转出
+  const owner = account.toLowerCase()
+  const seen = new Set<string>()
+  const transfers = new Map<string, { record: HistoryRecord, value: bigint, incoming: boolean }>()
+  for (const log of logs) {
+    const parsed = TRANSFER_EVENT.parseLog(log)
+    if (!parsed) continue
+    const logKey = `${log.transactionHash}:${log.index}`
+    if (seen.has(logKey)) continue
+    seen.add(logKey)
+
+    const value: bigint = parsed.args[2]
+    const incoming = (parsed.args[0] as string).toLowerCase() !== owner
+    const key = `${log.transactionHash}:${incoming ? 'in' : 'out'}`
+    const existing = transfers.get(key)
+    if (existing) {
+      existing.value += value
+      continue
+    }
+    const block = blocks.get(log.blockNumber)
+    transfers.set(key, {
+      value,
+      incoming,
+      record: {
+        type: 'token',
+        hash: log.transactionHash,
+        chainId,
+        account,
+        from: parsed.args[0],
+        to: parsed.args[1],
+        amount: '',
+        token: token.symbol,
+        decimals: token.decimals,
+        timestamp: block ? block.timestamp * 1000 : Date.now(),
+        // 区块和手续费信息留给后台核对补充
+        status: 'confirmed'
+      }
+    })
+  }
+  // 只有一个方向时按哈希 + 代币记录；两个方向都有时转入部分单独记为 leg: 'in'
+  return [...transfers.values()].map(({ record, value, incoming }) => ({
+    ...record,
+    amount: ethers.formatUnits(value, token.decimals),
+    leg: incoming && transfers.has(`${record.hash}:out`) ? 'in' as const : undefined
+  }))
+}
+
+// Hook for scanning an account's full token transfer history in adaptive chunks with a persisted checkpoint
+export function useTokenHistoryScanner(
+  provider: ethers.Provider | null,
+  chainId: string,
+  account: string,
+  tokens: ScanToken[]
+) {
+  const [progress, setProgress] = useState<TokenScanProgress[]>([])
+  const [isScanning, setIsScanning] = useState<boolean>(false)
+  const [startBlock, setStartBlockState] = useState<number | null>(() => getScanStartBlock(chainId))
+  // 每次开始新的扫描时递增，旧的扫描在下一个区间前发现后自行停止
+  const generationRef = useRef(0)
+
+  useEffect(() => {
+    setStartBlockState(getScanStartBlock(chainId))
+    setProgress([])
+    setIsScanning(false)
+  }, [chainId, account])
+
+  // 切换账户、网络或卸载时中断正在进行的扫描
+  useEffect(() => {
+    const generation = generationRef
+    return () => {
+      generation.current++
+    }
+  }, [provider, chainId, account])
+
+  const setStartBlock = useCallback((block: number | null) => {
+    setScanStartBlock(chainId, block)
+    setStartBlockState(block)
+  }, [chainId])
+
+  const scan = useCallback(async () => {
+    if (!provider || !account) return
+    const generation = ++generationRef.current
+    const isStale = () => generationRef.current !== generation
+    const updateProgress = (symbol: string, updates: Partial<TokenScanProgress>) => {
+      if (isStale()) return
+      setProgress(current => current.map(item => (item.symbol === symbol ? { ...item, ...updates } : item)))
+    }
+
+    setIsScanning(true)
+    try {
+      const targetBlock = await provider.getBlockNumber()
+      const configuredStart = getScanStartBlock(chainId)
+
+      // 先为每个代币确定扫描区间，进度条一次性全部显示
+      const plans = tokens.map(token => ({
+        token,
+        ...planScan(loadScanCheckpoint(CHECKPOINT_KEY, chainId, token.address, account), configuredStart, targetBlock)
+      }))
+      if (isStale()) return
+      setProgress(plans.map(plan => ({
+        symbol: plan.token.symbol,
+        startBlock: plan.startBlock,
+        scannedTo: plan.fromBlock - 1,
+        targetBlock,
+        status: plan.fromBlock > targetBlock ? 'done' : 'scanning'
+      })))
+
+      for (const plan of plans) {
+        if (isStale()) return
+        if (plan.fromBlock > targetBlock) continue
+        try {
+          const completed = await scanLogsForward({
+            fromBlock: plan.fromBlock,
+            toBlock: targetBlock,
+            chunkSize: plan.chunkSize,
+            fetchChunk: (fromBlock, toBlock) => fetchTransferLogs(provider, plan.token, account, fromBlock, toBlock),
+            onChunk: async (logs, chunk) => {
+              if (logs.length > 0) {
+                await mergeHistoryRecords(await logsToRecords(provider, logs, plan.token, chainId, account))
+              }
+              // 记录写入后再推进检查点，中断后从下一个区间继续
+              saveScanCheckpoint<ScanCheckpoint>(CHECKPOINT_KEY, chainId, plan.token.address, account, {
+                startBlock: plan.startBlock,
+                lastBlock: chunk.toBlock,
+                chunkSize: chunk.chunkSize
+              })
+              updateProgress(plan.token.symbol, { scannedTo: chunk.toBlock })
+            },
+            shouldStop: isStale
+          })
+          if (completed) {
+            updateProgress(plan.token.symbol, { status: 'done' })
+          }
+        } catch (error) {
+          console.warn(`扫描 ${plan.token.symbol} 转账记录失败:`, error)
+          updateProgress(plan.token.symbol, {
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error)
+          })
+        }
+      }
+    } catch (error) {
+      console.error('扫描链上记录失败:', error)
+    } finally {
+      if (!isStale()) {
+        setIsScanning(false)
+      }
+    }
+  }, [provider, chainId, account, tokens])
+
+  // 清除当前账户在本网络上的检查点，下次从起始区块重新扫描
+  const resetCheckpoints = useCallback(() => {
+    tokens.forEach(token => saveScanCheckpoint(CHECKPOINT_KEY, chainId, token.address, account, null))
+    setProgress([])
+  }, [tokens, chainId, account])
+
+  return { progress, isScanning, scan, startBlock, setStartBlock, resetCheckpoints }
+}
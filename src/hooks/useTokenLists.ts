@@ -0,0 +1,67 @@
+import { useState, useCallback, useMemo } from 'react'
+import defaultTokenList from '../tokenlists/default.tokenlist.json'
+import { mergeTokenLists, parseTokenList, type TokenList } from '../utils/tokenLists'
+
+export interface StoredTokenList {
+  id: string
+  list: TokenList
+  // 内置列表随代码发布，不能移除
+  builtin: boolean
+  addedAt: number
+}
+
+const TOKEN_LISTS_KEY = 'datachain_token_lists'
+const BUILTIN_LIST_ID = 'builtin-default'
+
+function createBuiltinList(): StoredTokenList {
+  return { id: BUILTIN_LIST_ID, list: defaultTokenList as TokenList, builtin: true, addedAt: 0 }
+}
+
+function loadUploadedLists(): StoredTokenList[] {
+  try {
+    const saved = localStorage.getItem(TOKEN_LISTS_KEY)
+    return saved ? (JSON.parse(saved) as StoredTokenList[]) : []
+  } catch (error) {
+    console.error('读取代币列表失败:', error)
+    return []
+  }
+}
+
+// Hook for the bundled and user-uploaded token lists, merged by chain
+export function useTokenLists() {
+  const [uploadedLists, setUploadedLists] = useState<StoredTokenList[]>(loadUploadedLists)
+
+  // 先保存再更新状态；上传的列表过大超出存储配额时抛出错误，由调用方提示用户
+  const persistLists = useCallback((next: StoredTokenList[]) => {
+    try {
+      localStorage.setItem(TOKEN_LISTS_KEY, JSON.stringify(next))
+    } catch (error) {
+      console.error('保存代币列表失败:', error)
+      throw new Error('代币列表过大，无法保存到浏览器存储')
+    }
+    setUploadedLists(next)
+  }, [])
+
+  // 校验或保存失败时抛出错误；同名列表视为新版本，替换旧的
+  const addList = useCallback((text: string): TokenList => {
+    const list = parseTokenList(text)
+    persistLists([
+      ...uploadedLists.filter(item => item.list.name !== list.name),
+      { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, list, builtin: false, addedAt: Date.now() }
+    ])
+    return list
+  }, [uploadedLists, persistLists])
+
+  const removeList = useCallback((id: string) => {
+    try {
+      persistLists(uploadedLists.filter(item => item.id !== id))
+    } catch (error) {
+      console.error('移除代币列表失败:', error)
+    }
+  }, [uploadedLists, persistLists])
+
+  const lists = useMemo(() => [createBuiltinList(), ...uploadedLists], [uploadedLists])
+  const tokensByChain = useMemo(() => mergeTokenLists(lists.map(item => item.list)), [lists])
+
+  return { lists, tokensByChain, addList, removeList }
+}
@@ -0,0 +1,49 @@
+import { useState, useCallback } from 'react'
+
+export interface StoredToken {
+  // 十六进制 chainId
+  chainId: string
+  address: string
+  name: string
+  symbol: string
+  decimals: number
+  addedAt: number
+}
+
+const TOKENS_KEY = 'datachain_custom_tokens'
+
+function loadTokens(): StoredToken[] {
+  try {
+    const saved = localStorage.getItem(TOKENS_KEY)
+    return saved ? (JSON.parse(saved) as StoredToken[]) : []
+  } catch (error) {
+    console.error('读取自定义代币失败:', error)
+    return []
+  }
+}
+
+// Hook for managing user-added ERC-20 tokens, stored per chain
+export function useTokenRegistry() {
+  const [tokens, setTokens] = useState<StoredToken[]>(loadTokens)
+
+  // 在状态更新函数之外保存，更新函数保持纯函数
+  const persistTokens = useCallback((next: StoredToken[]) => {
+    localStorage.setItem(TOKENS_KEY, JSON.stringify(next))
+    setTokens(next)
+  }, [])
+
+  const addToken = useCallback((token: Omit<StoredToken, 'addedAt'>) => {
+    persistTokens([
+      ...tokens.filter(item => !(item.chainId === token.chainId && item.address.toLowerCase() === token.address.toLowerCase())),
+      { ...token, addedAt: Date.now() }
+    ])
+  }, [tokens, persistTokens])
+
+  const removeToken = useCallback((chainId: string, address: string) => {
+    persistTokens(tokens.filter(
+      item => !(item.chainId === chainId && item.address.toLowerCase() === address.toLowerCase())
+    ))
+  }, [tokens, persistTokens])
+
+  return { tokens, addToken, removeToken }
+}
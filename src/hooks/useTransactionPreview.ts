@@ -0,0 +1,39 @@
+import { useState, useRef } from 'react'
+
+export interface TransactionPreviewData {
+  title: string
+  // 预期结果，逐行展示
+  details: { label: string; value: string }[]
+  gasLimit: bigint
+  fee: bigint
+  // 随交易发送的原生币数量，计入总花费
+  value?: bigint
+}
+
+// Hook for showing a simulated transaction preview and waiting for the user's decision
+export function useTransactionPreview() {
+  const [preview, setPreview] = useState<TransactionPreviewData | null>(null)
+  const resolverRef = useRef<((confirmed: boolean) => void) | null>(null)
+
+  const settle = (confirmed: boolean) => {
+    resolverRef.current?.(confirmed)
+    resolverRef.current = null
+    setPreview(null)
+  }
+
+  // 展示预览，用户确认后返回 true，取消返回 false
+  const requestConfirmation = (data: TransactionPreviewData) =>
+    new Promise<boolean>(resolve => {
+      // 同时只保留一个预览，旧的视为取消
+      resolverRef.current?.(false)
+      resolverRef.current = resolve
+      setPreview(data)
+    })
+
+  return {
+    preview,
+    requestConfirmation,
+    confirmPreview: () => settle(true),
+    cancelPreview: () => settle(false)
+  }
+}
@@ -3,7 +3,8 @@ import { useState } from 'react'
 export interface TransactionStep {
   id: string
   label: string
-  status: 'pending' | 'loading' | 'success' | 'error'
+  // replaced / cancelled: 交易被同 nonce 的新交易替换或取消
+  status: 'pending' | 'loading' | 'success' | 'error' | 'replaced' | 'cancelled'
   txHash?: string
   error?: string
 }
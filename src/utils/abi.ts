@@ -0,0 +1,145 @@
+import { ethers } from 'ethers'
+
+// 表单中的参数值：基础类型为字符串，数组和元组为子值列表
+export type AbiInputValue = string | AbiInputValue[]
+
+export interface DecodedOutput {
+  name: string
+  type: string
+  value: string
+}
+
+// 将ABI中的函数按读/写分组
+export function splitFunctions(abi: ethers.InterfaceAbi) {
+  const iface = new ethers.Interface(abi)
+  const readFunctions: ethers.FunctionFragment[] = []
+  const writeFunctions: ethers.FunctionFragment[] = []
+
+  iface.forEachFunction((fragment) => {
+    if (fragment.constant) {
+      readFunctions.push(fragment)
+    } else {
+      writeFunctions.push(fragment)
+    }
+  })
+
+  return { iface, readFunctions, writeFunctions }
+}
+
+// 根据参数类型生成表单初始值
+export function createDefaultValue(param: ethers.ParamType): AbiInputValue {
+  if (param.isTuple()) {
+    return param.components.map(createDefaultValue)
+  }
+  if (param.isArray()) {
+    return param.arrayLength > 0
+      ? Array.from({ length: param.arrayLength }, () => createDefaultValue(param.arrayChildren))
+      : []
+  }
+  if (param.baseType === 'bool') {
+    return 'false'
+  }
+  return ''
+}
+
+const describeParam = (param: ethers.ParamType) =>
+  param.name ? `${param.name} (${param.type})` : param.type
+
+// 解析整数，支持十进制和0x十六进制，并按位宽做范围检查
+function parseInteger(param: ethers.ParamType, raw: string): bigint {
+  const text = raw.trim()
+  if (!/^-?(\d+|0x[0-9a-fA-F]+)$/.test(text)) {
+    throw new Error(`${describeParam(param)} 不是有效的整数`)
+  }
+
+  const value = text.startsWith('-') ? -BigInt(text.slice(1)) : BigInt(text)
+  const bits = parseInt(param.type.replace(/^u?int/, '') || '256')
+
+  const [min, max] = param.type.startsWith('uint')
+    ? [0n, (1n << BigInt(bits)) - 1n]
+    : [-(1n << BigInt(bits - 1)), (1n << BigInt(bits - 1)) - 1n]
+
+  if (value < min || value > max) {
+    throw new Error(`${describeParam(param)} 超出范围 [${min}, ${max}]`)
+  }
+  return value
+}
+
+// 将表单值转换为合约调用参数，校验失败时抛出带参数名的错误
+export function parseAbiValue(param: ethers.ParamType, value: AbiInputValue): unknown {
+  if (param.isTuple()) {
+    const items = Array.isArray(value) ? value : []
+    return param.components.map((component, index) => parseAbiValue(component, items[index] ?? ''))
+  }
+
+  if (param.isArray()) {
+    const items = Array.isArray(value) ? value : []
+    if (param.arrayLength >= 0 && items.length !== param.arrayLength) {
+      throw new Error(`${describeParam(param)} 需要 ${param.arrayLength} 个元素`)
+    }
+    return items.map((item) => parseAbiValue(param.arrayChildren, item))
+  }
+
+  const text = typeof value === 'string' ? value.trim() : ''
+
+  if (/^u?int\d*$/.test(param.type)) {
+    return parseInteger(param, text)
+  }
+
+  switch (param.type) {
+    case 'address':
+      if (!ethers.isAddress(text)) {
+        throw new Error(`${describeParam(param)} 不是有效的地址`)
+      }
+      return ethers.getAddress(text)
+    case 'bool':
+      if (text !== 'true' && text !== 'false') {
+        throw new Error(`${describeParam(param)} 只能是 true 或 false`)
+      }
+      return text === 'true'
+    case 'string':
+      return typeof value === 'string' ? value : ''
+    default:
+      break
+  }
+
+  if (param.type.startsWith('bytes')) {
+    const size = param.type === 'bytes' ? undefined : parseInt(param.type.slice(5))
+    if (!ethers.isHexString(text, size)) {
+      throw new Error(
+        size
+          ? `${describeParam(param)} 需要 ${size} 字节的十六进制值`
+          : `${describeParam(param)} 不是有效的十六进制值`
+      )
+    }
+    return text
+  }
+
+  throw new Error(`暂不支持参数类型 ${param.type}`)
+}
+
+export function parseAbiArgs(params: readonly ethers.ParamType[], values: AbiInputValue[]): unknown[] {
+  return params.map((param, index) => parseAbiValue(param, values[index] ?? createDefaultValue(param)))
+}
+
+// 将解码后的返回值格式化为可读字符串
+export function formatAbiValue(value: unknown): string {
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (value instanceof ethers.Result || Array.isArray(value)) {
+    return `[${Array.from(value, formatAbiValue).join(', ')}]`
+  }
+  if (typeof value === 'string') {
+    return value
+  }
+  return String(value)
+}
+
+export function decodeOutputs(fragment: ethers.FunctionFragment, result: ethers.Result): DecodedOutput[] {
+  return fragment.outputs.map((param, index) => ({
+    name: param.name || `[${index}]`,
+    type: param.type,
+    value: formatAbiValue(result[index])
+  }))
+}
@@ -0,0 +1,103 @@
+import { ethers } from 'ethers'
+import type { HistoryRecord, HistoryRecordType } from './historyRepository'
+
+// 统一活动视图的筛选和排序：原生转账、代币转账和合约调用按同一套条件处理
+
+export type ActivitySort = 'time-desc' | 'time-asc' | 'amount-desc' | 'amount-asc'
+
+export interface ActivityFilters {
+  type: HistoryRecordType | 'all'
+  // yyyy-mm-dd，来自日期输入框，按本地时间解释；为空表示不限
+  dateFrom: string
+  dateTo: string
+  // 按各条记录自身单位比较的数量区间，为空表示不限
+  minAmount: string
+  maxAmount: string
+  sort: ActivitySort
+}
+
+export const DEFAULT_ACTIVITY_FILTERS: ActivityFilters = {
+  type: 'all',
+  dateFrom: '',
+  dateTo: '',
+  minAmount: '',
+  maxAmount: '',
+  sort: 'time-desc'
+}
+
+export interface ActivityResult {
+  records: HistoryRecord[]
+  // 筛选条件本身不合法时的提示，此时对应条件不生效
+  errors: string[]
+}
+
+// 不同代币精度不同，统一换算到 18 位小数后再比较，避免浮点误差
+const COMPARE_DECIMALS = 18
+
+function amountValue(amount: string): bigint {
+  try {
+    return ethers.parseUnits(amount, COMPARE_DECIMALS)
+  } catch {
+    return 0n
+  }
+}
+
+function parseAmountBound(input: string, label: string, errors: string[]): bigint | null {
+  const trimmed = input.trim()
+  if (!trimmed) return null
+  try {
+    return ethers.parseUnits(trimmed, COMPARE_DECIMALS)
+  } catch {
+    errors.push(`${label}不是有效的数字`)
+    return null
+  }
+}
+
+function parseDateBound(input: string, endOfDay: boolean): number | null {
+  if (!input) return null
+  const time = new Date(`${input}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime()
+  return isNaN(time) ? null : time
+}
+
+function compareRecords(a: HistoryRecord, b: HistoryRecord, sort: ActivitySort): number {
+  switch (sort) {
+    case 'time-asc':
+      return a.timestamp - b.timestamp
+    case 'amount-desc':
+    case 'amount-asc': {
+      const diff = amountValue(a.amount) - amountValue(b.amount)
+      const order = diff === 0n ? b.timestamp - a.timestamp : diff > 0n ? 1 : -1
+      return sort === 'amount-asc' ? order : -order
+    }
+    default:
+      return b.timestamp - a.timestamp
+  }
+}
+
+export function applyActivityFilters(records: HistoryRecord[], filters: ActivityFilters): ActivityResult {
+  const errors: string[] = []
+  const minAmount = parseAmountBound(filters.minAmount, '最小数量', errors)
+  const maxAmount = parseAmountBound(filters.maxAmount, '最大数量', errors)
+  const from = parseDateBound(filters.dateFrom, false)
+  const to = parseDateBound(filters.dateTo, true)
+  if (from !== null && to !== null && from > to) {
+    errors.push('开始日期晚于结束日期')
+  }
+
+  const filtered = records.filter((record) => {
+    if (filters.type !== 'all' && record.type !== filters.type) return false
+    if (from !== null && record.timestamp < from) return false
+    if (to !== null && record.timestamp > to) return false
+    if (minAmount !== null || maxAmount !== null) {
+      const value = amountValue(record.amount)
+      if (minAmount !== null && value < minAmount) return false
+      if (maxAmount !== null && value > maxAmount) return false
+    }
+    return true
+  })
+
+  return {
+    records: filtered.sort((a, b) => compareRecords(a, b, filters.sort)),
+    errors
+  }
+}
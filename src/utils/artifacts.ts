@@ -0,0 +1,96 @@
+import { ethers } from 'ethers'
+
+export type ArtifactFormat = 'truffle' | 'hardhat' | 'foundry' | 'abi'
+
+export interface ParsedArtifact {
+  name: string
+  format: ArtifactFormat
+  abi: ethers.JsonFragment[]
+  bytecode?: string
+  // 以十六进制 chainId 为键的部署地址
+  addresses: Record<string, string>
+}
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// 校验ABI能被ethers正确解析，避免坏数据进入存储
+function validateAbi(abi: unknown): ethers.JsonFragment[] {
+  if (!Array.isArray(abi)) {
+    throw new Error('未找到 ABI 数组')
+  }
+  try {
+    new ethers.Interface(abi as ethers.JsonFragment[])
+  } catch (error) {
+    throw new Error('ABI 格式无效: ' + (error instanceof Error ? error.message : '未知错误'))
+  }
+  return abi as ethers.JsonFragment[]
+}
+
+function normalizeBytecode(value: unknown): string | undefined {
+  // Foundry 产物的 bytecode 是 { object: "0x..." }
+  const raw = isObject(value) ? value.object : value
+  if (typeof raw !== 'string' || raw.length === 0) return undefined
+  const hex = raw.startsWith('0x') ? raw : `0x${raw}`
+  return ethers.isHexString(hex) && hex !== '0x' ? hex : undefined
+}
+
+// Truffle 的 networks 字段以十进制 network id 为键
+function parseTruffleNetworks(networks: unknown): Record<string, string> {
+  const addresses: Record<string, string> = {}
+  if (!isObject(networks)) return addresses
+
+  for (const [networkId, entry] of Object.entries(networks)) {
+    if (!/^\d+$/.test(networkId) || !isObject(entry)) continue
+    const address = entry.address
+    if (typeof address === 'string' && ethers.isAddress(address)) {
+      addresses[`0x${BigInt(networkId).toString(16)}`] = ethers.getAddress(address)
+    }
+  }
+  return addresses
+}
+
+function detectFormat(json: JsonObject): ArtifactFormat {
+  if (json._format === 'hh-sol-artifact-1') return 'hardhat'
+  if (isObject(json.bytecode) && 'object' in json.bytecode) return 'foundry'
+  return 'truffle'
+}
+
+// 解析 Truffle / Hardhat / Foundry 产物或纯 ABI 数组
+export function parseContractArtifact(input: string | unknown, fallbackName = '未命名合约'): ParsedArtifact {
+  let json: unknown = input
+  if (typeof input === 'string') {
+    try {
+      json = JSON.parse(input)
+    } catch {
+      throw new Error('JSON 解析失败，请检查内容格式')
+    }
+  }
+
+  if (Array.isArray(json)) {
+    return {
+      name: fallbackName,
+      format: 'abi',
+      abi: validateAbi(json),
+      addresses: {}
+    }
+  }
+
+  if (!isObject(json)) {
+    throw new Error('无法识别的合约产物格式')
+  }
+
+  const name = typeof json.contractName === 'string' && json.contractName
+    ? json.contractName
+    : fallbackName
+
+  return {
+    name,
+    format: detectFormat(json),
+    abi: validateAbi(json.abi),
+    bytecode: normalizeBytecode(json.bytecode),
+    addresses: parseTruffleNetworks(json.networks)
+  }
+}
@@ -0,0 +1,70 @@
+import { ethers } from 'ethers'
+import { splitCsvLine, splitCsvRecords } from './csv'
+
+export interface BatchRow {
+  // CSV 中的行号（从 1 开始），便于定位错误
+  line: number
+  address: string
+  amount: string
+  memo: string
+  // 按代币精度换算后的数量，校验失败时为 null
+  value: bigint | null
+  error?: string
+}
+
+function detectDelimiter(line: string): string {
+  if (line.includes('\t')) return '\t'
+  if (!line.includes(',') && line.includes(';')) return ';'
+  return ','
+}
+
+// 解析 address,amount[,memo] 格式的 CSV，第一行不是地址时视为表头跳过
+export function parseBatchCsv(text: string, decimals: number): BatchRow[] {
+  // 备注字段可以是带换行的引号字段，按 CSV 记录而不是物理行拆分
+  const lines = splitCsvRecords(text)
+  const firstContent = lines.find(line => line.trim())
+  if (!firstContent) return []
+  const delimiter = detectDelimiter(firstContent)
+
+  const rows: BatchRow[] = []
+  let headerSkipped = false
+  // 记录开始的物理行号，引号内的换行也计入
+  let nextLine = 1
+  lines.forEach(raw => {
+    const lineNumber = nextLine
+    nextLine += 1 + (raw.match(/\r\n|\r|\n/g)?.length ?? 0)
+    if (!raw.trim()) return
+    const [address = '', amount = '', ...memoParts] = splitCsvLine(raw, delimiter)
+
+    if (!headerSkipped && rows.length === 0 && !ethers.isAddress(address) && /address|地址/i.test(address)) {
+      headerSkipped = true
+      return
+    }
+
+    const row: BatchRow = {
+      line: lineNumber,
+      address,
+      amount,
+      memo: memoParts.join(delimiter).trim(),
+      value: null
+    }
+
+    if (!ethers.isAddress(address)) {
+      row.error = '地址无效'
+    } else {
+      row.address = ethers.getAddress(address)
+      try {
+        const value = ethers.parseUnits(amount, decimals)
+        if (value <= 0n) {
+          row.error = '金额必须大于0'
+        } else {
+          row.value = value
+        }
+      } catch {
+        row.error = `金额格式错误（最多 ${decimals} 位小数）`
+      }
+    }
+    rows.push(row)
+  })
+  return rows
+}
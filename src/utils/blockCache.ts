@@ -0,0 +1,92 @@
+import { ethers } from 'ethers'
+
+// 区块头缓存：按网络和区块号缓存，多个组件并发查询同一区块时只发出一次请求
+
+export interface BlockHeader {
+  number: number
+  hash: string | null
+  // 秒
+  timestamp: number
+}
+
+// 超出后淘汰最早写入的区块
+const MAX_CACHED_BLOCKS = 5000
+// 同时发出的 RPC 请求上限；JsonRpcProvider 会把同一时刻发出的请求合并成一个 JSON-RPC 批量请求
+export const RPC_CONCURRENCY = 8
+
+// 只用于读取时间戳，重组后旧区块的哈希可能过期，不能用来判断交易是否仍在链上
+const headers = new Map<string, BlockHeader>()
+const inflight = new Map<string, Promise<BlockHeader | null>>()
+
+function cacheKey(chainId: bigint, blockNumber: number): string {
+  return `${chainId}:${blockNumber}`
+}
+
+function remember(key: string, header: BlockHeader) {
+  headers.set(key, header)
+  if (headers.size > MAX_CACHED_BLOCKS) {
+    const oldest = headers.keys().next().value
+    if (oldest !== undefined) headers.delete(oldest)
+  }
+}
+
+function fetchHeader(provider: ethers.Provider, chainId: bigint, blockNumber: number): Promise<BlockHeader | null> {
+  const key = cacheKey(chainId, blockNumber)
+  const cached = headers.get(key)
+  if (cached) return Promise.resolve(cached)
+
+  const pending = inflight.get(key)
+  if (pending) return pending
+
+  const request = provider.getBlock(blockNumber)
+    .then((block) => {
+      if (!block) return null
+      const header = { number: block.number, hash: block.hash, timestamp: block.timestamp }
+      remember(key, header)
+      return header
+    })
+    .finally(() => inflight.delete(key))
+  inflight.set(key, request)
+  return request
+}
+
+// 按顺序处理 items，最多同时执行 limit 个任务，结果顺序与输入一致
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+export async function getBlockHeader(provider: ethers.Provider, blockNumber: number): Promise<BlockHeader | null> {
+  const { chainId } = await provider.getNetwork()
+  return fetchHeader(provider, chainId, blockNumber)
+}
+
+// 批量读取区块头，单个区块查询失败时跳过，不影响其他区块
+export async function getBlockHeaders(
+  provider: ethers.Provider,
+  blockNumbers: number[]
+): Promise<Map<number, BlockHeader>> {
+  const { chainId } = await provider.getNetwork()
+  const result = new Map<number, BlockHeader>()
+  await mapWithConcurrency([...new Set(blockNumbers)], RPC_CONCURRENCY, async (blockNumber) => {
+    try {
+      const header = await fetchHeader(provider, chainId, blockNumber)
+      if (header) result.set(blockNumber, header)
+    } catch (error) {
+      console.warn(`查询区块 ${blockNumber} 失败:`, error)
+    }
+  })
+  return result
+}
@@ -0,0 +1,70 @@
+// 通用 CSV 读写工具
+
+// 拆分一行 CSV，支持双引号包裹的字段和 "" 转义
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let inQuotes = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+// 按行拆分 CSV 文本，双引号内的换行属于字段内容
+export function splitCsvRecords(text: string): string[] {
+  const records: string[] = []
+  let current = ''
+  let inQuotes = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      records.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+  records.push(current)
+  return records
+}
+
+// 包含分隔符、引号或换行的字段用双引号包裹
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function formatCsvRow(cells: (string | number | undefined | null)[]): string {
+  return cells.map(cell => escapeCsvCell(cell === undefined || cell === null ? '' : String(cell))).join(',')
+}
+
+// 在浏览器中下载生成的文本文件
+export function downloadTextFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,70 @@
+import { ethers } from 'ethers'
+
+export interface Erc20Metadata {
+  name: string
+  symbol: string
+  decimals: number
+}
+
+const ERC20_METADATA_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)'
+]
+
+// 早期代币（如 MKR）的 name/symbol 返回 bytes32
+const BYTES32_METADATA_ABI = [
+  'function name() view returns (bytes32)',
+  'function symbol() view returns (bytes32)'
+]
+
+async function readText(
+  contract: ethers.Contract,
+  fallback: ethers.Contract,
+  method: 'name' | 'symbol'
+): Promise<string> {
+  try {
+    return (await contract.getFunction(method).staticCall()) as string
+  } catch {
+    const raw = (await fallback.getFunction(method).staticCall()) as string
+    return ethers.decodeBytes32String(raw)
+  }
+}
+
+// 读取代币的名称、符号和精度；地址不是合约或不符合 ERC-20 接口时抛出错误
+export async function readErc20Metadata(provider: ethers.Provider, address: string): Promise<Erc20Metadata> {
+  if (!ethers.isAddress(address)) {
+    throw new Error('请输入有效的合约地址')
+  }
+
+  const code = await provider.getCode(address)
+  if (code === '0x') {
+    throw new Error('该地址在当前网络上不是合约')
+  }
+
+  const contract = new ethers.Contract(address, ERC20_METADATA_ABI, provider)
+  const fallback = new ethers.Contract(address, BYTES32_METADATA_ABI, provider)
+  let name: string
+  let symbol: string
+  let decimals: bigint
+  try {
+    // totalSupply 和 balanceOf 能调用成功才认为是 ERC-20，排除只实现了 name/symbol 的合约
+    [name, symbol, decimals] = await Promise.all([
+      readText(contract, fallback, 'name'),
+      readText(contract, fallback, 'symbol'),
+      contract.decimals() as Promise<bigint>,
+      contract.totalSupply() as Promise<bigint>,
+      contract.balanceOf(ethers.ZeroAddress) as Promise<bigint>
+    ])
+  } catch (error) {
+    console.warn(`读取代币 ${address} 信息失败:`, error)
+    throw new Error('该合约不是标准 ERC-20 代币（无法读取 name、symbol、decimals、totalSupply 或 balanceOf）')
+  }
+
+  if (!symbol.trim()) {
+    throw new Error('该合约的代币符号为空')
+  }
+  return { name: name.trim() || symbol.trim(), symbol: symbol.trim(), decimals: Number(decimals) }
+}
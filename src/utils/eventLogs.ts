@@ -0,0 +1,129 @@
+import { ethers } from 'ethers'
+
+export interface EventQueryOptions {
+  // 查询范围上界（包含），默认最新区块
+  toBlock?: number
+  // 查询范围下界（包含）
+  fromBlock?: number
+  // 收集到足够数量后停止向前扫描
+  limit?: number
+  chunkSize?: number
+}
+
+export interface EventQueryResult {
+  events: ethers.EventLog[]
+  // 本次实际扫描到的最低区块（包含），继续向前查询时从它的前一个区块开始
+  scannedFrom: number
+}
+
+const DEFAULT_CHUNK_SIZE = 5000
+// 未指定下界时最多向前回溯的区块数
+const DEFAULT_LOOKBACK = 50000
+
+// 从最新区块开始按块区间向前查询事件，避免单次请求范围过大被RPC拒绝
+// 达到 limit 时会返回当前区间内的全部事件，保证同一区块的事件不会被截断
+export async function queryEventsBackward(
+  contract: ethers.Contract,
+  eventName: string,
+  options: EventQueryOptions = {}
+): Promise<EventQueryResult> {
+  const provider = contract.runner?.provider
+  if (!provider) {
+    throw new Error('合约未连接 provider')
+  }
+
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  const toBlock = options.toBlock ?? await provider.getBlockNumber()
+  const fromBlock = Math.max(0, options.fromBlock ?? toBlock - DEFAULT_LOOKBACK)
+  const filter = contract.filters[eventName]()
+  const events: ethers.EventLog[] = []
+
+  for (let end = toBlock; end >= fromBlock; end -= chunkSize) {
+    const start = Math.max(fromBlock, end - chunkSize + 1)
+    const logs = await contract.queryFilter(filter, start, end)
+
+    // 区块内按日志顺序倒序，保证整体从新到旧
+    const chunkEvents = logs
+      .filter((log): log is ethers.EventLog => 'args' in log)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index)
+    events.push(...chunkEvents)
+
+    if (options.limit && events.length >= options.limit) {
+      return { events, scannedFrom: start }
+    }
+  }
+
+  return { events, scannedFrom: fromBlock }
+}
+
+export interface ScanChunk {
+  fromBlock: number
+  toBlock: number
+  // 本区间使用的块数，成功后可作为下次扫描的初始区间
+  chunkSize: number
+}
+
+export interface ForwardScanOptions {
+  fromBlock: number
+  toBlock: number
+  chunkSize?: number
+  // 查询一个区间的日志，RPC 拒绝范围过大时应原样抛出错误
+  fetchChunk: (fromBlock: number, toBlock: number) => Promise<ethers.Log[]>
+  // 每个区间查询成功后调用，在这里保存结果和检查点；返回后才继续下一个区间
+  onChunk: (logs: ethers.Log[], chunk: ScanChunk) => Promise<void> | void
+  // 返回 true 时在下一个区间开始前停止
+  shouldStop?: () => boolean
+}
+
+const MAX_CHUNK_SIZE = 100000
+
+// 不同 RPC 对范围过大或结果过多的错误措辞不同，按常见关键字识别
+export function isRangeTooLargeError(error: unknown): boolean {
+  const message = error instanceof Error
+    ? `${error.message} ${JSON.stringify((error as { info?: unknown }).info ?? '')}`
+    : String(error)
+  return /block range|range (is )?too (large|wide)|too many (results|blocks|logs)|(size|range) exceeded|exceeds? (the )?max|more than \d+ (results|logs)|limited to (a )?\d+/i
+    .test(message)
+}
+
+// 从 fromBlock 向后按区间扫描到 toBlock，成功后逐步放大区间，范围过大时缩小区间重试
+// 返回 false 表示被 shouldStop 中断
+export async function scanLogsForward(options: ForwardScanOptions): Promise<boolean> {
+  let chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE)
+  let start = options.fromBlock
+
+  while (start <= options.toBlock) {
+    if (options.shouldStop?.()) return false
+
+    const end = Math.min(options.toBlock, start + chunkSize - 1)
+    let logs: ethers.Log[]
+    try {
+      logs = await options.fetchChunk(start, end)
+    } catch (error) {
+      if (!isRangeTooLargeError(error) || chunkSize === 1) throw error
+      chunkSize = Math.max(1, Math.floor(chunkSize / 2))
+      continue
+    }
+
+    await options.onChunk(logs, { fromBlock: start, toBlock: end, chunkSize })
+    start = end + 1
+    chunkSize = Math.min(MAX_CHUNK_SIZE, chunkSize * 2)
+  }
+  return true
+}
+
+// 二分查找合约的部署区块（第一个有代码的区块），需要节点支持查询历史状态，否则抛出错误
+export async function findDeployBlock(provider: ethers.Provider, address: string, latestBlock: number): Promise<number> {
+  let low = 0
+  let high = latestBlock
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    const code = await provider.getCode(address, mid)
+    if (code !== '0x') {
+      high = mid
+    } else {
+      low = mid + 1
+    }
+  }
+  return low
+}
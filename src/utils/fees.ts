@@ -0,0 +1,122 @@
+import { ethers } from 'ethers'
+
+export type FeeSpeed = 'slow' | 'normal' | 'fast'
+export type FeePreset = FeeSpeed | 'custom'
+
+// 1559 网络使用 maxFeePerGas / maxPriorityFeePerGas，旧网络只有 gasPrice
+export interface FeeValues {
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  gasPrice?: bigint
+}
+
+export interface FeeSuggestion {
+  supports1559: boolean
+  // 下一个区块的 baseFee，仅 1559 网络
+  baseFee: bigint | null
+  presets: Record<FeeSpeed, FeeValues>
+}
+
+// 各档位使用的 eth_feeHistory 小费百分位
+const REWARD_PERCENTILES: Record<FeeSpeed, number> = {
+  slow: 10,
+  normal: 50,
+  fast: 90
+}
+// eth_feeHistory 不可用时，在 getFeeData 结果上按百分比调整
+const FALLBACK_MULTIPLIERS: Record<FeeSpeed, bigint> = {
+  slow: 90n,
+  normal: 100n,
+  fast: 125n
+}
+const FEE_HISTORY_BLOCKS = 10
+const SPEEDS: FeeSpeed[] = ['slow', 'normal', 'fast']
+
+interface FeeHistoryResult {
+  baseFeePerGas: string[]
+  reward?: string[][]
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)] ?? 0n
+}
+
+// 最近若干区块各百分位小费的中位数
+async function fetchPriorityFees(provider: ethers.JsonRpcApiProvider) {
+  const history: FeeHistoryResult = await provider.send('eth_feeHistory', [
+    ethers.toQuantity(FEE_HISTORY_BLOCKS),
+    'latest',
+    SPEEDS.map(speed => REWARD_PERCENTILES[speed])
+  ])
+  const rewards = history.reward || []
+  if (rewards.length === 0) {
+    throw new Error('节点未返回小费数据')
+  }
+  const tips = Object.fromEntries(
+    SPEEDS.map((speed, index) => [speed, median(rewards.map(row => BigInt(row[index])))])
+  ) as Record<FeeSpeed, bigint>
+  // 最后一项是下一个区块的 baseFee
+  const nextBaseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1])
+  return { tips, nextBaseFee }
+}
+
+// 读取 getFeeData 和 eth_feeHistory，生成慢/中/快三档费用
+export async function fetchFeeSuggestion(provider: ethers.Provider): Promise<FeeSuggestion> {
+  const feeData = await provider.getFeeData()
+
+  if (feeData.maxFeePerGas === null || feeData.maxPriorityFeePerGas === null) {
+    if (feeData.gasPrice === null) {
+      throw new Error('无法获取当前网络的Gas价格')
+    }
+    const gasPrice = feeData.gasPrice
+    return {
+      supports1559: false,
+      baseFee: null,
+      presets: Object.fromEntries(
+        SPEEDS.map(speed => [speed, { gasPrice: (gasPrice * FALLBACK_MULTIPLIERS[speed]) / 100n }])
+      ) as Record<FeeSpeed, FeeValues>
+    }
+  }
+
+  let tips: Record<FeeSpeed, bigint>
+  let baseFee: bigint
+  try {
+    if (!(provider instanceof ethers.JsonRpcApiProvider)) {
+      throw new Error('provider 不支持 eth_feeHistory')
+    }
+    const history = await fetchPriorityFees(provider)
+    tips = history.tips
+    baseFee = history.nextBaseFee
+  } catch (error) {
+    console.warn('eth_feeHistory 查询失败，使用 getFeeData 估算:', error)
+    const priorityFee = feeData.maxPriorityFeePerGas
+    tips = Object.fromEntries(
+      SPEEDS.map(speed => [speed, (priorityFee * FALLBACK_MULTIPLIERS[speed]) / 100n])
+    ) as Record<FeeSpeed, bigint>
+    // getFeeData 的 maxFeePerGas = 2 * baseFee + priorityFee
+    baseFee = (feeData.maxFeePerGas - priorityFee) / 2n
+  }
+
+  return {
+    supports1559: true,
+    baseFee,
+    presets: Object.fromEntries(
+      SPEEDS.map(speed => [
+        speed,
+        // 预留两倍 baseFee，连续几个满块后交易仍然有效
+        { maxFeePerGas: baseFee * 2n + tips[speed], maxPriorityFeePerGas: tips[speed] }
+      ])
+    ) as Record<FeeSpeed, FeeValues>
+  }
+}
+
+// 每单位 Gas 最多支付的价格
+export function maxGasPrice(values: FeeValues): bigint {
+  return values.maxFeePerGas ?? values.gasPrice ?? 0n
+}
+
+export function formatGwei(value: bigint | null | undefined): string {
+  if (value === null || value === undefined) return '-'
+  return Number(ethers.formatUnits(value, 'gwei')).toLocaleString(undefined, { maximumFractionDigits: 4 })
+}
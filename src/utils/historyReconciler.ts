@@ -0,0 +1,157 @@
+import { ethers } from 'ethers'
+import { queryHistory, updateHistoryRecord, type HistoryRecord } from './historyRepository'
+
+// 最近多少个区块内确认的交易需要检查是否被重组移出
+const REORG_DEPTH = 12
+// 刚广播的交易可能还没传播到当前节点，超过这个时间仍找不到才标记为丢弃
+const DROP_GRACE_MS = 2 * 60 * 1000
+
+// 标记为丢弃或已替换的交易仍可能被打包（例如替换交易没有成功），在发送后的这段时间内继续核对
+const FINAL_RECHECK_MS = 60 * 60 * 1000
+// 查不到结果的记录按指数退避间隔若干区块再查，最长间隔
+const MAX_BACKOFF_BLOCKS = 32
+
+// 每条记录的核对退避状态，按 网络:哈希:代币 区分
+const backoff = new Map<string, { attempts: number, nextBlock: number }>()
+
+// 只为补充收据信息的记录（已有最终状态或网络未知）每个会话在每个网络上只查询一次，
+// 查不到时不在每个新区块上重复请求
+const backfillAttempts = new Set<string>()
+
+export interface ReconcileResult {
+  updated: number
+  // 之前已确认、但重组后收据消失或换了区块的记录
+  reorged: HistoryRecord[]
+}
+
+function receiptFields(receipt: ethers.TransactionReceipt): Partial<HistoryRecord> {
+  return {
+    status: receipt.status === 1 ? 'confirmed' : 'failed',
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.gasPrice.toString()
+  }
+}
+
+// 状态未定或缺少收据信息的记录
+function needsReceipt(record: HistoryRecord): boolean {
+  if (record.status === undefined || record.status === 'pending') return true
+  return (record.status === 'confirmed' || record.status === 'failed') && record.blockNumber === undefined
+}
+
+// 丢弃或替换状态还不算最终结果的记录
+function isRecheckable(record: HistoryRecord): boolean {
+  return (record.status === 'dropped' || record.status === 'replaced')
+    && record.blockNumber === undefined
+    && Date.now() - record.timestamp < FINAL_RECHECK_MS
+}
+
+function isDue(key: string, currentBlock: number): boolean {
+  const entry = backoff.get(key)
+  return entry === undefined || currentBlock >= entry.nextBlock
+}
+
+function scheduleRetry(key: string, currentBlock: number) {
+  const attempts = (backoff.get(key)?.attempts ?? 0) + 1
+  backoff.set(key, { attempts, nextBlock: currentBlock + Math.min(MAX_BACKOFF_BLOCKS, 2 ** attempts) })
+}
+
+function isBackfillOnly(record: HistoryRecord): boolean {
+  return !record.chainId || (record.status !== undefined && record.status !== 'pending')
+}
+
+function isRecentlyConfirmed(record: HistoryRecord, currentBlock: number): boolean {
+  return record.status === 'confirmed'
+    && record.blockHash !== undefined
+    && record.blockNumber !== undefined
+    && record.blockNumber > currentBlock - REORG_DEPTH
+}
+
+async function reconcileRecord(
+  provider: ethers.Provider,
+  chainId: string,
+  record: HistoryRecord
+): Promise<boolean> {
+  const receipt = await provider.getTransactionReceipt(record.hash)
+  if (receipt) {
+    // 旧记录没有网络信息，能在当前网络查到收据即可补上
+    await updateHistoryRecord(record.hash, record.token, { ...receiptFields(receipt), chainId })
+    return true
+  }
+
+  // 网络未知的旧记录查不到收据时可能属于其他网络，不做判断；丢弃或替换的记录只在查到收据时更新
+  if (isBackfillOnly(record)) {
+    return false
+  }
+
+  const tx = await provider.getTransaction(record.hash)
+  if (!tx && Date.now() - record.timestamp > DROP_GRACE_MS) {
+    // 已提交过加速或取消的交易找不到时，说明已被替换交易取代
+    await updateHistoryRecord(record.hash, record.token, { status: record.replacedBy ? 'replaced' : 'dropped' })
+    return true
+  }
+  return false
+}
+
+// 重新查询近期已确认交易的收据，收据消失说明所在区块被重组移出，重新回到待确认状态
+async function checkReorg(provider: ethers.Provider, record: HistoryRecord): Promise<boolean> {
+  const receipt = await provider.getTransactionReceipt(record.hash)
+  if (receipt && receipt.blockHash === record.blockHash) {
+    return false
+  }
+  await updateHistoryRecord(
+    record.hash,
+    record.token,
+    receipt
+      ? receiptFields(receipt)
+      : { status: 'pending', blockNumber: undefined, blockHash: undefined, gasUsed: undefined, effectiveGasPrice: undefined }
+  )
+  return true
+}
+
+// 核对当前网络上未定状态的记录，并检查近期确认的交易是否受到重组影响
+export async function reconcileHistory(
+  provider: ethers.Provider,
+  chainId: string,
+  currentBlock: number
+): Promise<ReconcileResult> {
+  const result: ReconcileResult = { updated: 0, reorged: [] }
+
+  // 切换网络的过程中 provider 和界面上的网络可能短暂不一致，此时跳过，避免把记录标记为丢弃
+  const { chainId: providerChainId } = await provider.getNetwork()
+  if (`0x${providerChainId.toString(16)}` !== chainId) {
+    return result
+  }
+
+  const [chainRecords, legacyRecords] = await Promise.all([
+    queryHistory({ chainId }),
+    queryHistory({ chainId: '' })
+  ])
+
+  // 逐条查询，避免一次性发出大量 RPC 请求
+  for (const record of [...chainRecords, ...legacyRecords]) {
+    const key = `${chainId}:${record.hash}:${record.token}`
+    try {
+      if (needsReceipt(record) || isRecheckable(record)) {
+        if (isBackfillOnly(record) && !isRecheckable(record)) {
+          if (backfillAttempts.has(key)) continue
+          backfillAttempts.add(key)
+        }
+        if (!isDue(key, currentBlock)) continue
+        if (await reconcileRecord(provider, chainId, record)) {
+          backoff.delete(key)
+          result.updated++
+        } else {
+          scheduleRetry(key, currentBlock)
+        }
+      } else if (isRecentlyConfirmed(record, currentBlock) && await checkReorg(provider, record)) {
+        result.updated++
+        result.reorged.push(record)
+      }
+    } catch (error) {
+      console.warn(`核对交易 ${record.hash} 失败:`, error)
+    }
+  }
+  return result
+}
@@ -0,0 +1,303 @@
+// 交易历史存储：基于 IndexedDB，按哈希、账户、网络、代币和时间建立索引
+
+// 原生币转账记录的 token 字段
+export const NATIVE_TOKEN = 'native'
+
+// native: 原生币转账；token: 代币转账；contract: 合约函数调用
+export type HistoryRecordType = 'native' | 'token' | 'contract'
+
+// dropped: 既未打包、节点交易池中也找不到
+export type HistoryStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled' | 'dropped'
+
+export interface HistoryRecord {
+  type: HistoryRecordType
+  hash: string
+  // 旧版本迁移过来的记录没有网络信息，为空字符串
+  chainId: string
+  // 记录这笔交易的钱包账户（通过哈希查询到的交易不一定由它发起），迁移的旧记录为空字符串
+  account: string
+  from: string
+  to: string
+  // 原生币或代币数量（已按精度格式化）
+  amount: string
+  // 原生币和合约调用为 NATIVE_TOKEN，代币为符号
+  token: string
+  // 同一笔交易中账户既转出又收到同一代币时（如兑换、退款），收到的部分单独记为 'in'
+  leg?: 'in'
+  // amount 的精度，旧记录可能没有
+  decimals?: number
+  // 原生转账附带的数据留言，或合约调用的函数和参数
+  data?: string
+  timestamp: number
+  source?: 'blockchain' | 'local'
+  status?: HistoryStatus
+  // 被加速或取消时，替换它的新交易哈希
+  replacedBy?: string
+  // 以下字段来自交易收据，由后台核对写入；gas 相关数值为十进制字符串
+  blockNumber?: number
+  blockHash?: string
+  gasUsed?: string
+  effectiveGasPrice?: string
+}
+
+export interface HistoryQuery {
+  hash?: string
+  // 作为发送方或接收方参与的账户
+  account?: string
+  chainId?: string
+  token?: string
+  type?: HistoryRecordType
+}
+
+interface StoredRecord extends HistoryRecord {
+  // 哈希 + 代币（+ leg），同一笔交易的多个代币转账分别记录
+  id: string
+  // 小写的 account / from / to，用于 account 多值索引
+  accounts: string[]
+}
+
+const DB_NAME = 'datachain_history'
+const DB_VERSION = 1
+const STORE_NAME = 'records'
+// 迁移前使用的 localStorage 键
+const LEGACY_NATIVE_KEY = 'datachain_transactions'
+const LEGACY_TOKEN_KEY = 'datachain_usdt_records'
+
+export function historyRecordId(hash: string, token: string, leg?: 'in'): string {
+  return leg ? `${hash.toLowerCase()}:${token}:${leg}` : `${hash.toLowerCase()}:${token}`
+}
+
+// 实际支付的手续费（wei），尚未取得收据时为 null
+export function recordFee(record: HistoryRecord): bigint | null {
+  if (record.gasUsed === undefined || record.effectiveGasPrice === undefined) return null
+  return BigInt(record.gasUsed) * BigInt(record.effectiveGasPrice)
+}
+
+function toStored(record: HistoryRecord): StoredRecord {
+  return {
+    ...record,
+    id: historyRecordId(record.hash, record.token, record.leg),
+    accounts: [
+      ...new Set([record.account, record.from, record.to].filter(Boolean).map(address => address.toLowerCase()))
+    ]
+  }
+}
+
+// 早期写入的记录没有 type 字段，按代币推断
+function storedType(stored: StoredRecord): HistoryRecordType {
+  return stored.type ?? (stored.token === NATIVE_TOKEN ? 'native' : 'token')
+}
+
+function fromStored(stored: StoredRecord): HistoryRecord {
+  const record: Partial<StoredRecord> = { ...stored }
+  delete record.id
+  delete record.accounts
+  return { account: '', ...record, type: storedType(stored) } as HistoryRecord
+}
+
+function readLegacy<T>(key: string): T[] {
+  try {
+    const saved = localStorage.getItem(key)
+    return saved ? (JSON.parse(saved) as T[]) : []
+  } catch (error) {
+    console.error(`读取旧的交易记录 ${key} 失败:`, error)
+    return []
+  }
+}
+
+// 把旧版 localStorage 中的整块 JSON 记录写入新建的对象仓库
+function migrateLegacyRecords(store: IDBObjectStore) {
+  type LegacyNative = Omit<HistoryRecord, 'type' | 'amount' | 'token' | 'chainId' | 'account'> & { value: string }
+  const legacyNative = readLegacy<LegacyNative>(LEGACY_NATIVE_KEY)
+  const legacyTokens = readLegacy<Omit<HistoryRecord, 'type' | 'chainId' | 'account'>>(LEGACY_TOKEN_KEY)
+
+  for (const { value, ...record } of legacyNative) {
+    store.put(toStored({ ...record, type: 'native', amount: value, token: NATIVE_TOKEN, chainId: '', account: '' }))
+  }
+  for (const record of legacyTokens) {
+    store.put(toStored({ ...record, type: 'token', chainId: '', account: '' }))
+  }
+  console.log(`已迁移 ${legacyNative.length} 条原生转账记录和 ${legacyTokens.length} 条代币转账记录`)
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      let migrated = false
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+          store.createIndex('hash', 'hash')
+          store.createIndex('account', 'accounts', { multiEntry: true })
+          store.createIndex('chainId', 'chainId')
+          store.createIndex('token', 'token')
+          store.createIndex('timestamp', 'timestamp')
+          migrateLegacyRecords(store)
+          migrated = true
+        }
+      }
+
+      request.onsuccess = () => {
+        // 迁移事务已随升级一起提交，之后不再需要旧数据
+        if (migrated) {
+          localStorage.removeItem(LEGACY_NATIVE_KEY)
+          localStorage.removeItem(LEGACY_TOKEN_KEY)
+        }
+        resolve(request.result)
+      }
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// 在一个事务中执行操作，事务提交后才返回，保证读-改-写不会被其他写入打断
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORE_NAME, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+  const result = await operation(transaction.objectStore(STORE_NAME))
+  await done
+  if (mode === 'readwrite') {
+    notifyListeners()
+  }
+  return result
+}
+
+const listeners = new Set<() => void>()
+
+function notifyListeners() {
+  listeners.forEach(listener => listener())
+}
+
+export function subscribeHistory(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function matchesQuery(record: StoredRecord, query: HistoryQuery): boolean {
+  if (query.hash && record.hash.toLowerCase() !== query.hash.toLowerCase()) return false
+  if (query.account && !record.accounts.includes(query.account.toLowerCase())) return false
+  if (query.chainId !== undefined && record.chainId !== query.chainId) return false
+  if (query.token && record.token !== query.token) return false
+  if (query.type && storedType(record) !== query.type) return false
+  return true
+}
+
+// 按查询条件中选择性最强的索引取数，其余条件在内存中过滤，结果按时间倒序
+export function queryHistory(query: HistoryQuery = {}): Promise<HistoryRecord[]> {
+  return withStore('readonly', async (store) => {
+    let records: StoredRecord[]
+    if (query.hash) {
+      // 哈希大小写不统一，两种写法都查一次
+      const [exact, lower] = await Promise.all([
+        requestToPromise<StoredRecord[]>(store.index('hash').getAll(query.hash)),
+        requestToPromise<StoredRecord[]>(store.index('hash').getAll(query.hash.toLowerCase()))
+      ])
+      records = [...new Map([...exact, ...lower].map(record => [record.id, record])).values()]
+    } else if (query.account) {
+      records = await requestToPromise(store.index('account').getAll(query.account.toLowerCase()))
+    } else if (query.chainId !== undefined) {
+      records = await requestToPromise(store.index('chainId').getAll(query.chainId))
+    } else if (query.token) {
+      records = await requestToPromise(store.index('token').getAll(query.token))
+    } else {
+      records = await requestToPromise(store.index('timestamp').getAll())
+    }
+
+    return records
+      .filter(record => matchesQuery(record, query))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(fromStored)
+  })
+}
+
+export function getHistoryRecord(hash: string, token: string): Promise<HistoryRecord | null> {
+  return withStore('readonly', async (store) => {
+    const stored = await requestToPromise<StoredRecord | undefined>(store.get(historyRecordId(hash, token)))
+    return stored ? fromStored(stored) : null
+  })
+}
+
+// 写入或覆盖记录（例如用链上详情替换本地记录）
+export function putHistoryRecords(records: HistoryRecord[]): Promise<void> {
+  return withStore('readwrite', (store) => {
+    records.forEach(record => store.put(toStored(record)))
+  })
+}
+
+// 只写入尚不存在的记录（按哈希 + 代币去重），已有记录保持不变，返回实际写入的条数
+export function addHistoryRecords(records: HistoryRecord[]): Promise<number> {
+  return withStore('readwrite', async (store) => {
+    let added = 0
+    for (const record of records) {
+      const stored = toStored(record)
+      const existing = await requestToPromise(store.getKey(stored.id))
+      if (existing === undefined) {
+        store.put(stored)
+        added++
+      }
+    }
+    return added
+  })
+}
+
+// 合并扫描到的链上记录：不存在的直接写入；已有记录只补充缺少的字段，
+// 本地或后台核对写入的状态、替换关系和收据信息保持不变，返回新增的条数
+export function mergeHistoryRecords(records: HistoryRecord[]): Promise<number> {
+  return withStore('readwrite', async (store) => {
+    let added = 0
+    for (const record of records) {
+      const stored = toStored(record)
+      const existing = await requestToPromise<StoredRecord | undefined>(store.get(stored.id))
+      if (existing === undefined) {
+        store.put(stored)
+        added++
+        continue
+      }
+      const kept = Object.fromEntries(
+        Object.entries(fromStored(existing)).filter(([, value]) => value !== undefined && value !== '')
+      ) as Partial<HistoryRecord>
+      store.put(toStored({ ...record, ...kept }))
+    }
+    return added
+  })
+}
+
+// 在同一事务中读取并更新单条记录，记录不存在时忽略
+export function updateHistoryRecord(
+  hash: string,
+  token: string,
+  updates: Partial<Omit<HistoryRecord, 'hash' | 'token'>>
+): Promise<void> {
+  return withStore('readwrite', async (store) => {
+    const stored = await requestToPromise<StoredRecord | undefined>(store.get(historyRecordId(hash, token)))
+    if (stored) {
+      store.put(toStored({ ...fromStored(stored), ...updates }))
+    }
+  })
+}
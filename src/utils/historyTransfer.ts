@@ -0,0 +1,239 @@
+import { ethers } from 'ethers'
+import { formatCsvRow, splitCsvLine, splitCsvRecords } from './csv'
+import { NATIVE_TOKEN, recordFee, type HistoryRecord, type HistoryRecordType, type HistoryStatus } from './historyRepository'
+
+// 交易历史的导出与导入：CSV 和 JSON 使用同一组字段，导出的文件可以原样导回
+
+interface NetworkInfo {
+  name: string
+  chainId: string
+  decimals: number
+}
+
+// 导出文件中的一行；数值统一为字符串，便于在表格软件中查看
+export interface ExportedHistoryRow {
+  type: HistoryRecordType
+  network: string
+  chainId: string
+  hash: string
+  time: string
+  account: string
+  from: string
+  to: string
+  amount: string
+  token: string
+  decimals: string
+  status: string
+  blockNumber: string
+  blockHash: string
+  gasUsed: string
+  effectiveGasPrice: string
+  // 按网络原生币精度格式化的实际手续费，导入时根据 gasUsed 和 effectiveGasPrice 重新计算
+  fee: string
+  data: string
+  source: string
+  replacedBy: string
+  leg: string
+}
+
+export interface HistoryExportFile {
+  version: 1
+  exportedAt: string
+  records: ExportedHistoryRow[]
+}
+
+export interface HistoryImportResult {
+  records: HistoryRecord[]
+  // 无法导入的行及原因
+  errors: string[]
+}
+
+const EXPORT_COLUMNS: (keyof ExportedHistoryRow)[] = [
+  'type', 'network', 'chainId', 'hash', 'time', 'account', 'from', 'to', 'amount', 'token', 'decimals',
+  'status', 'blockNumber', 'blockHash', 'gasUsed', 'effectiveGasPrice', 'fee', 'data', 'source', 'replacedBy', 'leg'
+]
+
+const RECORD_TYPES: HistoryRecordType[] = ['native', 'token', 'contract']
+const STATUSES: HistoryStatus[] = ['pending', 'confirmed', 'failed', 'replaced', 'cancelled', 'dropped']
+
+// 数据字段可能是十六进制（如代币转账日志），能按 UTF-8 解码成可读文字时输出文字，否则保留原值
+function decodeDataMessage(data: string | undefined): string {
+  if (!data || !ethers.isHexString(data) || data === '0x') return data ?? ''
+  try {
+    const text = ethers.toUtf8String(data)
+    return /^[^\p{Cc}]*$/u.test(text.replace(/[\r\n\t]/g, '')) ? text : data
+  } catch {
+    return data
+  }
+}
+
+function toExportedRow(record: HistoryRecord, networks: NetworkInfo[]): ExportedHistoryRow {
+  const network = networks.find(item => item.chainId === record.chainId)
+  const fee = recordFee(record)
+  return {
+    type: record.type,
+    network: network?.name ?? '',
+    chainId: record.chainId,
+    hash: record.hash,
+    time: new Date(record.timestamp).toISOString(),
+    account: record.account,
+    from: record.from,
+    to: record.to,
+    amount: record.amount,
+    token: record.token,
+    decimals: record.decimals?.toString() ?? '',
+    status: record.status ?? '',
+    blockNumber: record.blockNumber?.toString() ?? '',
+    blockHash: record.blockHash ?? '',
+    gasUsed: record.gasUsed ?? '',
+    effectiveGasPrice: record.effectiveGasPrice ?? '',
+    fee: fee === null ? '' : ethers.formatUnits(fee, network?.decimals ?? 18),
+    data: decodeDataMessage(record.data),
+    source: record.source ?? '',
+    replacedBy: record.replacedBy ?? '',
+    leg: record.leg ?? ''
+  }
+}
+
+export function exportHistoryCsv(records: HistoryRecord[], networks: NetworkInfo[]): string {
+  const rows = records.map(record => toExportedRow(record, networks))
+  return [
+    formatCsvRow(EXPORT_COLUMNS),
+    ...rows.map(row => formatCsvRow(EXPORT_COLUMNS.map(column => row[column])))
+  ].join('\r\n')
+}
+
+export function exportHistoryJson(records: HistoryRecord[], networks: NetworkInfo[]): string {
+  const file: HistoryExportFile = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    records: records.map(record => toExportedRow(record, networks))
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+function optionalInteger(value: string | undefined, field: string): number | undefined {
+  if (!value) return undefined
+  if (!/^\d+$/.test(value)) throw new Error(`${field} 不是非负整数`)
+  return Number(value)
+}
+
+function optionalBigIntString(value: string | undefined, field: string): string | undefined {
+  if (!value) return undefined
+  if (!/^\d+$/.test(value)) throw new Error(`${field} 不是非负整数`)
+  return value
+}
+
+function optionalAddress(value: string | undefined, field: string): string {
+  if (!value) return ''
+  if (!ethers.isAddress(value)) throw new Error(`${field} 不是有效地址`)
+  return value
+}
+
+// 校验一行导出数据并还原为历史记录，字段不合法时抛出错误
+function fromExportedRow(row: Partial<Record<keyof ExportedHistoryRow, string>>): HistoryRecord {
+  const type = row.type as HistoryRecordType
+  if (!RECORD_TYPES.includes(type)) throw new Error(`未知的记录类型 "${row.type ?? ''}"`)
+  if (!row.hash || !ethers.isHexString(row.hash, 32)) throw new Error('交易哈希无效')
+  if (row.chainId && !/^0x[0-9a-fA-F]+$/.test(row.chainId)) throw new Error('chainId 必须是十六进制')
+  if (!row.from || !ethers.isAddress(row.from)) throw new Error('from 不是有效地址')
+
+  const timestamp = Date.parse(row.time ?? '')
+  if (isNaN(timestamp)) throw new Error('时间格式无效')
+
+  const token = row.token || (type === 'token' ? '' : NATIVE_TOKEN)
+  if (!token) throw new Error('代币转账缺少代币符号')
+
+  const status = row.status ? row.status as HistoryStatus : undefined
+  if (status !== undefined && !STATUSES.includes(status)) throw new Error(`未知的状态 "${row.status}"`)
+  if (row.source && row.source !== 'blockchain' && row.source !== 'local') throw new Error(`未知的来源 "${row.source}"`)
+  if (row.leg && row.leg !== 'in') throw new Error(`未知的 leg "${row.leg}"`)
+
+  return {
+    type,
+    hash: row.hash,
+    chainId: row.chainId?.toLowerCase() ?? '',
+    account: optionalAddress(row.account, 'account'),
+    from: row.from,
+    to: optionalAddress(row.to, 'to'),
+    amount: row.amount ?? '0',
+    token,
+    leg: row.leg ? 'in' : undefined,
+    decimals: optionalInteger(row.decimals, 'decimals'),
+    data: row.data || undefined,
+    timestamp,
+    source: row.source ? row.source as 'blockchain' | 'local' : undefined,
+    status,
+    replacedBy: row.replacedBy || undefined,
+    blockNumber: optionalInteger(row.blockNumber, 'blockNumber'),
+    blockHash: row.blockHash || undefined,
+    gasUsed: optionalBigIntString(row.gasUsed, 'gasUsed'),
+    effectiveGasPrice: optionalBigIntString(row.effectiveGasPrice, 'effectiveGasPrice')
+  }
+}
+
+function parseRows(
+  rows: { label: string, row: Partial<Record<keyof ExportedHistoryRow, string>> }[]
+): HistoryImportResult {
+  const result: HistoryImportResult = { records: [], errors: [] }
+  for (const { label, row } of rows) {
+    try {
+      result.records.push(fromExportedRow(row))
+    } catch (error) {
+      result.errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return result
+}
+
+function parseCsvImport(text: string): HistoryImportResult {
+  const lines = splitCsvRecords(text)
+  const header = splitCsvLine(lines[0] ?? '', ',')
+  const missing = ['type', 'hash', 'time', 'from'].filter(column => !header.includes(column))
+  if (missing.length > 0) {
+    throw new Error(`CSV 缺少列: ${missing.join(', ')}`)
+  }
+
+  const rows = lines.slice(1).flatMap((line, index) => {
+    if (!line.trim()) return []
+    const cells = splitCsvLine(line, ',')
+    const row: Partial<Record<keyof ExportedHistoryRow, string>> = {}
+    header.forEach((column, cellIndex) => {
+      if ((EXPORT_COLUMNS as string[]).includes(column)) {
+        row[column as keyof ExportedHistoryRow] = cells[cellIndex] ?? ''
+      }
+    })
+    return [{ label: `第 ${index + 2} 行`, row }]
+  })
+  return parseRows(rows)
+}
+
+function parseJsonImport(text: string): HistoryImportResult {
+  const parsed: unknown = JSON.parse(text)
+  // 兼容直接保存的记录数组
+  const records = Array.isArray(parsed) ? parsed : (parsed as Partial<HistoryExportFile> | null)?.records
+  if (!Array.isArray(records)) {
+    throw new Error('JSON 中没有 records 数组')
+  }
+
+  return parseRows(records.map((item: unknown, index) => {
+    const row: Partial<Record<keyof ExportedHistoryRow, string>> = {}
+    if (item && typeof item === 'object') {
+      for (const column of EXPORT_COLUMNS) {
+        const value = (item as Record<string, unknown>)[column]
+        if (value !== undefined && value !== null) row[column] = String(value)
+      }
+    }
+    return { label: `第 ${index + 1} 条`, row }
+  }))
+}
+
+// 解析之前导出的 CSV 或 JSON 文件；文件整体格式错误时抛出，单行错误收集在 errors 中
+export function parseHistoryImport(text: string, fileName: string): HistoryImportResult {
+  const trimmed = text.replace(/^\uFEFF/, '').trim()
+  if (!trimmed) {
+    throw new Error('文件为空')
+  }
+  const isJson = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')
+  return isJson ? parseJsonImport(trimmed) : parseCsvImport(trimmed)
+}
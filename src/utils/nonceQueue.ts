@@ -0,0 +1,176 @@
+import { ethers } from 'ethers'
+import { waitForOutcome } from './replacement'
+
+// queued: 已交给钱包、尚未返回哈希；pending: 已广播；其余为最终状态
+export type QueueEntryState = 'queued' | 'pending' | 'mined' | 'failed' | 'replaced' | 'cancelled'
+
+export interface QueueEntry {
+  id: string
+  chainId: string
+  // 统一小写，便于按账户过滤
+  account: string
+  label: string
+  nonce: number | null
+  hash: string | null
+  state: QueueEntryState
+  createdAt: number
+  updatedAt: number
+}
+
+interface TrackOptions {
+  chainId: string
+  account: string
+  label: string
+}
+
+const STORAGE_KEY = 'datachain_nonce_queue'
+// 每个账户/网络最多保留的已完成记录数
+const MAX_SETTLED_ENTRIES = 20
+
+function loadEntries(): QueueEntry[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? (JSON.parse(saved) as QueueEntry[]) : []
+  } catch (error) {
+    console.error('读取交易队列失败:', error)
+    return []
+  }
+}
+
+let entries: QueueEntry[] = loadEntries()
+const listeners = new Set<() => void>()
+// 本页面中正在等待钱包或交易结果的记录；页面刷新后保存的未完成记录不在其中，需要重新核对
+const watching = new Set<string>()
+
+function isSettled(entry: QueueEntry): boolean {
+  return entry.state !== 'queued' && entry.state !== 'pending'
+}
+
+// 只保留每个账户/网络最近的已完成记录
+function trimSettled(list: QueueEntry[]): QueueEntry[] {
+  const settledCounts = new Map<string, number>()
+  return list.filter(entry => {
+    if (!isSettled(entry)) return true
+    const key = `${entry.chainId}:${entry.account}`
+    const count = (settledCounts.get(key) ?? 0) + 1
+    settledCounts.set(key, count)
+    return count <= MAX_SETTLED_ENTRIES
+  })
+}
+
+function commit(next: QueueEntry[]) {
+  entries = trimSettled(next)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  listeners.forEach(listener => listener())
+}
+
+export function subscribeNonceQueue(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getNonceQueueSnapshot(): QueueEntry[] {
+  return entries
+}
+
+export function updateQueueEntry(id: string, updates: Partial<QueueEntry>) {
+  commit(entries.map(entry => (entry.id === id ? { ...entry, ...updates, updatedAt: Date.now() } : entry)))
+}
+
+export function clearSettledEntries(chainId: string, account: string) {
+  const owner = account.toLowerCase()
+  commit(entries.filter(entry => !(entry.chainId === chainId && entry.account === owner && isSettled(entry))))
+}
+
+function watchOutcome(id: string, tx: ethers.TransactionResponse) {
+  watching.add(id)
+  waitForOutcome(tx)
+    .then(outcome => updateQueueEntry(id, { state: outcome.status === 'confirmed' ? 'mined' : outcome.status }))
+    .catch(error => console.error('等待队列中的交易失败:', error))
+    .finally(() => watching.delete(id))
+}
+
+// 重新核对保存下来、但本页面没有在等待的未完成记录（页面刷新前发送的交易）：
+// 没有哈希的 queued 记录已不会再有结果，直接移除；有收据的按执行结果结束；
+// nonce 已被其他交易占用的标记为已替换；仍在交易池中的继续等待，找不到的保持 pending 交给丢弃诊断
+export async function resolveStoredEntries(provider: ethers.Provider, chainId: string, account: string) {
+  const owner = account.toLowerCase()
+  const stored = entries.filter(entry =>
+    entry.chainId === chainId && entry.account === owner && !isSettled(entry) && !watching.has(entry.id)
+  )
+  if (stored.length === 0) return
+
+  const expired = new Set(stored.filter(entry => entry.hash === null).map(entry => entry.id))
+  if (expired.size > 0) {
+    commit(entries.filter(entry => !expired.has(entry.id)))
+  }
+  const broadcast = stored.filter(entry => entry.hash !== null)
+  if (broadcast.length === 0) return
+
+  // 核对期间视为在等待，避免重复核对
+  broadcast.forEach(entry => watching.add(entry.id))
+  const rewatched = new Set<string>()
+  try {
+    // 先读取 nonce 再查收据：之后才打包的交易 nonce 不会小于 latest
+    const latest = await provider.getTransactionCount(account, 'latest')
+    for (const entry of broadcast) {
+      const hash = entry.hash as string
+      const receipt = await provider.getTransactionReceipt(hash)
+      if (receipt) {
+        updateQueueEntry(entry.id, { state: receipt.status === 1 ? 'mined' : 'failed' })
+        continue
+      }
+      if (entry.nonce !== null && entry.nonce < latest) {
+        updateQueueEntry(entry.id, { state: 'replaced' })
+        continue
+      }
+      const tx = await provider.getTransaction(hash)
+      if (tx) {
+        watchOutcome(entry.id, tx)
+        rewatched.add(entry.id)
+      }
+    }
+  } finally {
+    broadcast.filter(entry => !rewatched.has(entry.id)).forEach(entry => watching.delete(entry.id))
+  }
+}
+
+// 记录一次发送：先进入 queued，钱包返回后记录 nonce 和哈希，并在后台等待最终状态
+// 用户拒绝签名或发送失败时移除记录，错误继续抛给调用方
+export async function trackTransaction(
+  options: TrackOptions,
+  send: () => Promise<ethers.TransactionResponse>
+): Promise<ethers.TransactionResponse> {
+  const now = Date.now()
+  const id = `${now}-${Math.random().toString(36).slice(2, 8)}`
+  commit([
+    {
+      id,
+      chainId: options.chainId,
+      account: options.account.toLowerCase(),
+      label: options.label,
+      nonce: null,
+      hash: null,
+      state: 'queued',
+      createdAt: now,
+      updatedAt: now
+    },
+    ...entries
+  ])
+  watching.add(id)
+
+  let tx: ethers.TransactionResponse
+  try {
+    tx = await send()
+  } catch (error) {
+    watching.delete(id)
+    commit(entries.filter(entry => entry.id !== id))
+    throw error
+  }
+
+  updateQueueEntry(id, { nonce: tx.nonce, hash: tx.hash, state: 'pending' })
+  watchOutcome(id, tx)
+  return tx
+}
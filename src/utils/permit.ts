@@ -0,0 +1,173 @@
+import { ethers } from 'ethers'
+
+// EIP-2612 permit：检测代币是否支持、构造 EIP-712 签名数据，并把签名交给 spender 合约或导出给中继
+
+export interface PermitSupport {
+  domain: ethers.TypedDataDomain
+  nonce: bigint
+}
+
+export interface SignedPermit {
+  token: string
+  chainId: string
+  owner: string
+  spender: string
+  value: bigint
+  nonce: bigint
+  deadline: bigint
+  v: number
+  r: string
+  s: string
+  signature: string
+}
+
+const PERMIT_ABI = [
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function PERMIT_TYPEHASH() view returns (bytes32)',
+  'function nonces(address owner) view returns (uint256)',
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)'
+]
+
+const PERMIT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+}
+
+// DAI 等代币的 permit(holder, spender, nonce, expiry, allowed, ...) 同样有 DOMAIN_SEPARATOR 和 nonces，
+// 只能通过公开的 PERMIT_TYPEHASH 与 EIP-2612 区分
+const EIP2612_PERMIT_TYPEHASH = ethers.id(ethers.TypedDataEncoder.from(PERMIT_TYPES).encodeType('Permit'))
+
+// 没有 version() 也没有 eip712Domain() 的代币依次尝试常见的版本号
+const FALLBACK_VERSIONS = ['1', '2']
+
+// 默认签名有效期（秒）
+export const DEFAULT_PERMIT_TTL = 60 * 60
+
+async function tryCall<T>(call: () => Promise<T>): Promise<T | null> {
+  try {
+    return await call()
+  } catch {
+    return null
+  }
+}
+
+// 读取 DOMAIN_SEPARATOR 和 nonces，并找到与链上 DOMAIN_SEPARATOR 一致的签名域
+// PERMIT_TYPEHASH 存在但不是 EIP-2612 的 Permit 类型（如 DAI）时视为不支持
+// 任何一步失败或域不匹配都返回 null，调用方应回退到 approve
+export async function detectPermitSupport(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  owner: string
+): Promise<PermitSupport | null> {
+  const contract = new ethers.Contract(tokenAddress, PERMIT_ABI, provider)
+  const [separator, typehash, nonce, name, version, eip712Domain, network] = await Promise.all([
+    tryCall(() => contract.DOMAIN_SEPARATOR() as Promise<string>),
+    tryCall(() => contract.PERMIT_TYPEHASH() as Promise<string>),
+    tryCall(() => contract.nonces(owner) as Promise<bigint>),
+    tryCall(() => contract.name() as Promise<string>),
+    tryCall(() => contract.version() as Promise<string>),
+    tryCall(() => contract.eip712Domain() as Promise<ethers.Result>),
+    provider.getNetwork()
+  ])
+  if (separator === null || nonce === null) return null
+  if (typehash !== null && typehash !== EIP2612_PERMIT_TYPEHASH) return null
+
+  const candidates: ethers.TypedDataDomain[] = []
+  if (eip712Domain) {
+    candidates.push({
+      name: eip712Domain[1],
+      version: eip712Domain[2],
+      chainId: eip712Domain[3],
+      verifyingContract: eip712Domain[4]
+    })
+  }
+  if (name !== null) {
+    for (const candidate of version !== null ? [version] : FALLBACK_VERSIONS) {
+      candidates.push({ name, version: candidate, chainId: network.chainId, verifyingContract: tokenAddress })
+    }
+  }
+
+  const domain = candidates.find(candidate => ethers.TypedDataEncoder.hashDomain(candidate) === separator)
+  return domain ? { domain, nonce } : null
+}
+
+// 签名 Permit(owner, spender, value, nonce, deadline)，并拆分出 v、r、s
+export async function signPermit(
+  signer: ethers.Signer,
+  tokenAddress: string,
+  support: PermitSupport,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<SignedPermit> {
+  const owner = await signer.getAddress()
+  const message = { owner, spender, value, nonce: support.nonce, deadline }
+  const signature = await signer.signTypedData(support.domain, PERMIT_TYPES, message)
+  const { v, r, s } = ethers.Signature.from(signature)
+  return {
+    token: ethers.getAddress(tokenAddress),
+    chainId: `0x${ethers.toBigInt(support.domain.chainId ?? 0).toString(16)}`,
+    ...message,
+    v,
+    r,
+    s,
+    signature
+  }
+}
+
+// 导出给中继使用的 JSON，bigint 转为十进制字符串
+export function permitToJson(permit: SignedPermit): string {
+  return JSON.stringify(
+    {
+      ...permit,
+      value: permit.value.toString(),
+      nonce: permit.nonce.toString(),
+      deadline: permit.deadline.toString()
+    },
+    null,
+    2
+  )
+}
+
+// 按参数名把签名填入 spender 合约函数，例如 depositWithPermit(uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)
+const PERMIT_ARGUMENTS: Record<string, (permit: SignedPermit) => unknown> = {
+  token: permit => permit.token,
+  owner: permit => permit.owner,
+  spender: permit => permit.spender,
+  value: permit => permit.value,
+  amount: permit => permit.value,
+  nonce: permit => permit.nonce,
+  deadline: permit => permit.deadline,
+  v: permit => permit.v,
+  r: permit => permit.r,
+  s: permit => permit.s,
+  signature: permit => permit.signature
+}
+
+export function parsePermitHandoff(signature: string): ethers.FunctionFragment {
+  let fragment: ethers.FunctionFragment
+  try {
+    fragment = ethers.FunctionFragment.from(signature.trim().replace(/^function\s+/, ''))
+  } catch {
+    throw new Error('函数签名格式不正确，例如 depositWithPermit(uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)')
+  }
+  const unknown = fragment.inputs.filter(input => !PERMIT_ARGUMENTS[input.name])
+  if (unknown.length > 0) {
+    throw new Error(
+      `无法填充参数 ${unknown.map(input => input.name || input.type).join(', ')}，` +
+      `参数名只能是 ${Object.keys(PERMIT_ARGUMENTS).join('、')}`
+    )
+  }
+  return fragment
+}
+
+export function buildPermitHandoffArgs(fragment: ethers.FunctionFragment, permit: SignedPermit): unknown[] {
+  return fragment.inputs.map(input => PERMIT_ARGUMENTS[input.name](permit))
+}
@@ -0,0 +1,132 @@
+import { ethers } from 'ethers'
+import { mapWithConcurrency, RPC_CONCURRENCY } from './blockCache'
+
+// 通过各网络配置的 rpcUrl 读取余额，不依赖钱包当前连接的网络
+
+export interface PortfolioNetwork {
+  name: string
+  chainId: string
+  rpcUrl: string
+  symbol: string
+  decimals: number
+}
+
+export interface PortfolioToken {
+  symbol: string
+  address: string
+  decimals: number
+}
+
+export interface PortfolioBalance {
+  symbol: string
+  // 原生币没有合约地址
+  tokenAddress?: string
+  decimals: number
+  amount: bigint
+}
+
+// 一个账户在一个网络上的余额；读取失败的项记在 errors 中，其余余额照常显示
+export interface AccountChainBalances {
+  account: string
+  chainId: string
+  balances: PortfolioBalance[]
+  errors: string[]
+}
+
+export interface ChainPortfolio {
+  chainId: string
+  networkName: string
+  // 整个网络不可用时（RPC 无法连接）为错误信息
+  error?: string
+  accounts: AccountChainBalances[]
+  updatedAt: number
+}
+
+// 单个 RPC 请求的超时，避免一个不可用的节点拖住整次刷新
+const RPC_TIMEOUT = 15000
+
+const BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)']
+
+const providers = new Map<string, ethers.JsonRpcProvider>()
+
+// 按 rpcUrl 复用只读 provider；staticNetwork 跳过网络探测，节点不可用时不会反复重试
+export function getReadOnlyProvider(network: PortfolioNetwork): ethers.JsonRpcProvider {
+  const key = `${network.chainId}:${network.rpcUrl}`
+  let provider = providers.get(key)
+  if (!provider) {
+    const request = new ethers.FetchRequest(network.rpcUrl)
+    request.timeout = RPC_TIMEOUT
+    const staticNetwork = ethers.Network.from(BigInt(network.chainId))
+    provider = new ethers.JsonRpcProvider(request, staticNetwork, { staticNetwork })
+    providers.set(key, provider)
+  }
+  return provider
+}
+
+function describeError(error: unknown): string {
+  if (ethers.isError(error, 'TIMEOUT')) return '请求超时'
+  if (ethers.isError(error, 'SERVER_ERROR')) return error.shortMessage
+  return error instanceof Error ? error.message : String(error)
+}
+
+// 读取所有账户在一个网络上的原生币和代币余额
+// 先确认节点可用，再逐项读取；单项失败不影响其他余额，代币余额为 0 的不保留
+export async function fetchChainPortfolio(
+  network: PortfolioNetwork,
+  accounts: string[],
+  tokens: PortfolioToken[]
+): Promise<ChainPortfolio> {
+  const provider = getReadOnlyProvider(network)
+  try {
+    await provider.getBlockNumber()
+  } catch (error) {
+    console.warn(`连接 ${network.name} RPC 失败:`, error)
+    return { chainId: network.chainId, networkName: network.name, error: describeError(error), accounts: [], updatedAt: Date.now() }
+  }
+
+  const results = new Map<string, AccountChainBalances>(
+    accounts.map(account => [account, { account, chainId: network.chainId, balances: [], errors: [] }])
+  )
+  const assets: (PortfolioToken | null)[] = [null, ...tokens]
+  const jobs = accounts.flatMap(account => assets.map(token => ({ account, token })))
+
+  await mapWithConcurrency(jobs, RPC_CONCURRENCY, async ({ account, token }) => {
+    const entry = results.get(account)!
+    try {
+      if (token === null) {
+        const amount = await provider.getBalance(account)
+        entry.balances.push({ symbol: network.symbol, decimals: network.decimals, amount })
+      } else {
+        const contract = new ethers.Contract(token.address, BALANCE_ABI, provider)
+        const amount: bigint = await contract.balanceOf(account)
+        if (amount > 0n) {
+          entry.balances.push({ symbol: token.symbol, tokenAddress: token.address, decimals: token.decimals, amount })
+        }
+      }
+    } catch (error) {
+      console.warn(`读取 ${network.name} 上 ${account} 的 ${token?.symbol ?? network.symbol} 余额失败:`, error)
+      entry.errors.push(`${token?.symbol ?? network.symbol}: ${describeError(error)}`)
+    }
+  })
+
+  // 并发读取的结果顺序不固定，原生币排在最前，代币按符号排序
+  for (const entry of results.values()) {
+    entry.balances.sort((a, b) =>
+      a.tokenAddress === undefined ? -1 : b.tokenAddress === undefined ? 1 : a.symbol.localeCompare(b.symbol)
+    )
+  }
+  return { chainId: network.chainId, networkName: network.name, accounts: [...results.values()], updatedAt: Date.now() }
+}
+
+// 同一网络上所有账户的余额按资产合计
+export function sumChainBalances(chain: ChainPortfolio): PortfolioBalance[] {
+  const totals = new Map<string, PortfolioBalance>()
+  for (const entry of chain.accounts) {
+    for (const balance of entry.balances) {
+      const key = balance.tokenAddress?.toLowerCase() ?? 'native'
+      const total = totals.get(key)
+      totals.set(key, total ? { ...total, amount: total.amount + balance.amount } : { ...balance })
+    }
+  }
+  return [...totals.values()]
+}
@@ -0,0 +1,67 @@
+import { ethers } from 'ethers'
+
+export type ReplacementMode = 'speedup' | 'cancel'
+
+// 节点要求替换交易的费用至少提高 10%，这里多留一些余量
+const FEE_BUMP_PERCENT = 120n
+
+export type TransactionOutcome =
+  | { status: 'confirmed' | 'failed'; receipt: ethers.TransactionReceipt | null }
+  // 原交易被同 nonce 的交易替换（加速或其他交易）或被取消
+  | { status: 'replaced' | 'cancelled'; replacementHash: string; receipt: ethers.TransactionReceipt }
+
+function bumpFee(original: bigint | null, current: bigint | null): bigint {
+  const bumped = ((original ?? 0n) * FEE_BUMP_PERCENT) / 100n
+  return current !== null && current > bumped ? current : bumped
+}
+
+// 使用相同 nonce 重新发送交易：加速时保持原交易内容，取消时改为向自己转账 0
+export async function replaceTransaction(
+  signer: ethers.Signer,
+  provider: ethers.Provider,
+  hash: string,
+  mode: ReplacementMode
+): Promise<ethers.TransactionResponse> {
+  const original = await provider.getTransaction(hash)
+  if (!original) {
+    throw new Error('找不到原交易，可能已被节点丢弃')
+  }
+  if (original.blockNumber !== null) {
+    throw new Error('交易已被打包，无法再加速或取消')
+  }
+
+  const feeData = await provider.getFeeData()
+  const fees: ethers.TransactionRequest = original.maxFeePerGas !== null
+    ? {
+        maxFeePerGas: bumpFee(original.maxFeePerGas, feeData.maxFeePerGas),
+        maxPriorityFeePerGas: bumpFee(original.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas)
+      }
+    : { gasPrice: bumpFee(original.gasPrice, feeData.gasPrice) }
+
+  const request: ethers.TransactionRequest = mode === 'cancel'
+    ? { to: original.from, value: 0n, data: '0x', gasLimit: 21000n }
+    : { to: original.to, value: original.value, data: original.data, gasLimit: original.gasLimit }
+
+  console.log(`${mode === 'cancel' ? '取消' : '加速'}交易 ${hash}, nonce: ${original.nonce}`)
+  return signer.sendTransaction({ ...request, ...fees, nonce: original.nonce })
+}
+
+// 等待交易结果，识别 ethers 的 TransactionReplacedError 而不是一直等待原交易
+export async function waitForOutcome(tx: ethers.TransactionResponse): Promise<TransactionOutcome> {
+  try {
+    const receipt = await tx.wait()
+    return { status: 'confirmed', receipt }
+  } catch (error) {
+    if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      return {
+        status: error.reason === 'cancelled' ? 'cancelled' : 'replaced',
+        replacementHash: error.replacement.hash,
+        receipt: error.receipt
+      }
+    }
+    if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+      return { status: 'failed', receipt: error.receipt }
+    }
+    throw error
+  }
+}
@@ -0,0 +1,85 @@
+// 按代币和账户保存的日志扫描检查点，以及每个网络配置的扫描起始区块
+
+export interface ScanCheckpoint {
+  // 这次连续扫描的起点，配置更早的起始区块时需要从头重扫
+  startBlock: number
+  lastBlock: number
+  // 上次成功的区间大小，下次直接从它开始
+  chunkSize: number
+}
+
+export interface ScanPlan {
+  startBlock: number
+  fromBlock: number
+  chunkSize?: number
+}
+
+const START_BLOCK_KEY = 'datachain_scan_start_blocks'
+// 未配置起始区块时首次扫描回溯的区块数
+const DEFAULT_LOOKBACK = 10000
+
+function readStorage<T>(key: string): Record<string, T> {
+  try {
+    const saved = localStorage.getItem(key)
+    return saved ? (JSON.parse(saved) as Record<string, T>) : {}
+  } catch (error) {
+    console.error(`读取 ${key} 失败:`, error)
+    return {}
+  }
+}
+
+function writeStorageEntry<T>(key: string, entryKey: string, value: T | null) {
+  const entries = readStorage<T>(key)
+  if (value === null) {
+    delete entries[entryKey]
+  } else {
+    entries[entryKey] = value
+  }
+  localStorage.setItem(key, JSON.stringify(entries))
+}
+
+function checkpointKey(chainId: string, tokenAddress: string, account: string): string {
+  return `${chainId}:${tokenAddress.toLowerCase()}:${account.toLowerCase()}`
+}
+
+export function getScanStartBlock(chainId: string): number | null {
+  return readStorage<number>(START_BLOCK_KEY)[chainId] ?? null
+}
+
+export function setScanStartBlock(chainId: string, block: number | null) {
+  writeStorageEntry(START_BLOCK_KEY, chainId, block)
+}
+
+export function loadScanCheckpoint<T extends ScanCheckpoint>(
+  storageKey: string,
+  chainId: string,
+  tokenAddress: string,
+  account: string
+): T | undefined {
+  return readStorage<T>(storageKey)[checkpointKey(chainId, tokenAddress, account)]
+}
+
+export function saveScanCheckpoint<T extends ScanCheckpoint>(
+  storageKey: string,
+  chainId: string,
+  tokenAddress: string,
+  account: string,
+  checkpoint: T | null
+) {
+  writeStorageEntry(storageKey, checkpointKey(chainId, tokenAddress, account), checkpoint)
+}
+
+// 有检查点且起始区块没有往前调整时从检查点继续，否则从配置的起始区块开始；
+// 都没有时从 defaultStart 开始，未指定则只扫描最近的区块
+export function planScan(
+  checkpoint: ScanCheckpoint | undefined,
+  configuredStart: number | null,
+  targetBlock: number,
+  defaultStart?: number
+): ScanPlan {
+  if (checkpoint && (configuredStart === null || configuredStart >= checkpoint.startBlock)) {
+    return { startBlock: checkpoint.startBlock, fromBlock: checkpoint.lastBlock + 1, chunkSize: checkpoint.chunkSize }
+  }
+  const startBlock = configuredStart ?? defaultStart ?? Math.max(0, targetBlock - DEFAULT_LOOKBACK)
+  return { startBlock, fromBlock: startBlock, chunkSize: checkpoint?.chunkSize }
+}
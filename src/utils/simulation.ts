@@ -0,0 +1,138 @@
+import { ethers } from 'ethers'
+import { formatAbiValue } from './abi'
+
+// Error(string) 和 Panic(uint256) 的选择器
+const ERROR_STRING_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+// Solidity 内置 Panic 错误码
+const PANIC_REASONS: Record<number, string> = {
+  0x00: '编译器插入的通用断言失败',
+  0x01: 'assert 断言失败',
+  0x11: '算术运算溢出',
+  0x12: '除以零或对零取模',
+  0x21: '枚举值越界',
+  0x22: '存储字节数组编码错误',
+  0x31: '对空数组执行 pop',
+  0x32: '数组下标越界',
+  0x41: '内存分配过大',
+  0x51: '调用了未初始化的函数指针'
+}
+
+export interface SimulationResult {
+  // eth_call 的返回数据，可按函数 ABI 解码出预期结果
+  returnData: string
+  gasLimit: bigint
+  // 按 maxFeePerGas（旧网络为 gasPrice）计算的最高费用
+  fee: bigint
+}
+
+// 钱包和节点会把回滚数据包在不同层级的错误对象里，逐层查找
+function findRevertData(error: unknown): string | null {
+  let current: unknown = error
+  for (let depth = 0; current && typeof current === 'object' && depth < 6; depth++) {
+    const { data, error: inner, info } = current as {
+      data?: unknown
+      error?: unknown
+      info?: { error?: unknown }
+    }
+    if (typeof data === 'string' && ethers.isHexString(data)) return data
+    if (data && typeof data === 'object') {
+      const nested = (data as { data?: unknown }).data
+      if (typeof nested === 'string' && ethers.isHexString(nested)) return nested
+    }
+    current = inner ?? info?.error
+  }
+  return null
+}
+
+// 解码回滚数据：Error(string)、Panic(uint256)，以及合约 ABI 中定义的自定义错误
+export function decodeRevertData(data: string, iface?: ethers.Interface): string {
+  if (data === '0x') {
+    return '交易被回滚，合约未返回原因'
+  }
+
+  const selector = data.slice(0, 10).toLowerCase()
+  const coder = ethers.AbiCoder.defaultAbiCoder()
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [message] = coder.decode(['string'], ethers.dataSlice(data, 4))
+      return `合约回滚: ${message}`
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4))
+      const panicCode = Number(code)
+      return `合约 Panic(0x${panicCode.toString(16)}): ${PANIC_REASONS[panicCode] || '未知错误码'}`
+    }
+  } catch {
+    return `无法解码的回滚数据: ${data}`
+  }
+
+  if (iface) {
+    try {
+      const parsed = iface.parseError(data)
+      if (parsed) {
+        const args = parsed.fragment.inputs.map(
+          (param, index) => `${param.name || index}=${formatAbiValue(parsed.args[index])}`
+        )
+        return `合约错误 ${parsed.name}(${args.join(', ')})`
+      }
+    } catch {
+      // 选择器匹配但参数解码失败时按未知错误处理
+    }
+  }
+
+  return `未知的合约错误 ${selector}`
+}
+
+// 将发送或模拟交易时的错误转换为可读的说明
+export function describeTransactionError(error: unknown, iface?: ethers.Interface): string {
+  if (ethers.isError(error, 'ACTION_REJECTED')) {
+    return '用户取消了交易'
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return '余额不足以支付转账金额和Gas费用'
+  }
+
+  const revertData = findRevertData(error)
+  if (revertData !== null) {
+    return decodeRevertData(revertData, iface)
+  }
+
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return error.reason ? `合约回滚: ${error.reason}` : error.shortMessage
+  }
+  return error instanceof Error ? error.message : '未知错误'
+}
+
+// 在 pending 状态上执行 eth_call 和 estimateGas，失败时抛出解码后的原因
+// 交易中已设置的 gasLimit 和费用字段会用于计算费用，未设置时使用估算值和当前网络价格
+export async function simulateTransaction(
+  provider: ethers.Provider,
+  tx: ethers.TransactionRequest,
+  iface?: ethers.Interface
+): Promise<SimulationResult> {
+  // 自定义 gasLimit 不参与估算，否则节点会把它当作估算上限
+  const { gasLimit: customGasLimit, ...rest } = tx
+  const request: ethers.TransactionRequest = { ...rest, blockTag: 'pending' }
+
+  const [returnData, estimatedGas] = await Promise.all([
+    provider.call(request),
+    provider.estimateGas(request)
+  ]).catch((error: unknown) => {
+    console.error('交易模拟失败:', error)
+    throw new Error(describeTransactionError(error, iface))
+  })
+
+  const gasLimit = customGasLimit != null ? ethers.getBigInt(customGasLimit) : estimatedGas
+  if (gasLimit < estimatedGas) {
+    throw new Error(`Gas Limit ${gasLimit} 低于预估用量 ${estimatedGas}，交易会因Gas不足失败`)
+  }
+
+  const presetPrice = tx.maxFeePerGas ?? tx.gasPrice
+  const gasPrice = presetPrice != null
+    ? ethers.getBigInt(presetPrice)
+    : await provider.getFeeData().then(feeData => feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n)
+  return { returnData, gasLimit, fee: gasLimit * gasPrice }
+}
@@ -0,0 +1,213 @@
+import { request, gql } from 'graphql-request'
+
+export const GRAPH_URL = import.meta.env.VITE_GRAPH_API_URL ||
+  'https://api.studio.thegraph.com/query/119001/yd-graph-2/v0.0.1'
+
+// 子图索引的合约地址；其他合约的事件只能通过 RPC 查询
+export const GRAPH_CONTRACT_ADDRESS = import.meta.env.VITE_GRAPH_CONTRACT_ADDRESS ||
+  '0x843F2a4Dce76F8adC235f4D8B1775338f8318CA7'
+
+export function isIndexedContract(address: string): boolean {
+  return Boolean(address) && address.toLowerCase() === GRAPH_CONTRACT_ADDRESS.toLowerCase()
+}
+
+interface IntrospectionTypeRef {
+  kind: string
+  name: string | null
+  ofType: IntrospectionTypeRef | null
+}
+
+interface IntrospectionField {
+  name: string
+  type: IntrospectionTypeRef
+}
+
+interface IntrospectionType {
+  kind: string
+  name: string
+  fields: IntrospectionField[] | null
+}
+
+interface IntrospectionResult {
+  __schema: {
+    queryType: { name: string }
+    types: IntrospectionType[]
+  }
+}
+
+// 事件实体在子图中的映射
+export interface EventEntityMapping {
+  entity: string
+  // 返回实体列表的查询字段，例如 instructors
+  listField: string
+  // 实体上的标量字段名 -> GraphQL 类型名
+  fields: Record<string, string>
+  // where 参数的输入类型，例如 Instructor_filter；不存在时无法做服务端过滤
+  filterType: string | null
+}
+
+const INTROSPECTION_QUERY = gql`
+  query IntrospectSchema {
+    __schema {
+      queryType {
+        name
+      }
+      types {
+        kind
+        name
+        fields {
+          name
+          type {
+            kind
+            name
+            ofType {
+              kind
+              name
+              ofType {
+                kind
+                name
+                ofType {
+                  kind
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+// 去掉 NON_NULL / LIST 包装，返回最内层类型，并标记是否为列表
+function unwrapType(type: IntrospectionTypeRef): { name: string | null; kind: string; isList: boolean } {
+  let current: IntrospectionTypeRef | null = type
+  let isList = false
+  while (current && (current.kind === 'NON_NULL' || current.kind === 'LIST')) {
+    if (current.kind === 'LIST') isList = true
+    current = current.ofType
+  }
+  return { name: current?.name ?? null, kind: current?.kind ?? '', isList }
+}
+
+function resolveMapping(
+  result: IntrospectionResult,
+  eventName: string,
+  requiredFields: string[]
+): EventEntityMapping {
+  const types = result.__schema.types
+  const queryType = types.find(t => t.name === result.__schema.queryType.name)
+  const objectTypes = types.filter(t => t.kind === 'OBJECT' && t.fields && !t.name.startsWith('_'))
+
+  // 查询类型上所有返回实体列表的字段
+  const listFields = (queryType?.fields || [])
+    .map(field => ({ field, type: unwrapType(field.type) }))
+    .filter(({ type }) => type.isList && type.kind === 'OBJECT' && type.name)
+
+  const entityNames = listFields.map(({ type }) => type.name as string)
+  const target = eventName.toLowerCase()
+
+  // 名称越接近事件名优先级越高
+  const scoreEntity = (name: string) => {
+    const lower = name.toLowerCase()
+    if (lower === target) return 3
+    if (lower.startsWith(target)) return 2
+    if (lower.includes(target)) return 1
+    return 0
+  }
+
+  const candidates = objectTypes
+    .filter(type => entityNames.includes(type.name) && scoreEntity(type.name) > 0)
+    .sort((a, b) => scoreEntity(b.name) - scoreEntity(a.name))
+
+  if (candidates.length === 0) {
+    throw new Error(
+      `子图中没有与事件 ${eventName} 对应的实体。可用实体: ${entityNames.join(', ') || '无'}`
+    )
+  }
+
+  for (const entity of candidates) {
+    const fields: Record<string, string> = {}
+    for (const field of entity.fields || []) {
+      const type = unwrapType(field.type)
+      if (!type.isList && (type.kind === 'SCALAR' || type.kind === 'ENUM') && type.name) {
+        fields[field.name] = type.name
+      }
+    }
+
+    if (requiredFields.every(name => name in fields)) {
+      const listField = listFields.find(({ type }) => type.name === entity.name)!.field.name
+      const filterType = types.some(t => t.name === `${entity.name}_filter`) ? `${entity.name}_filter` : null
+      return { entity: entity.name, listField, fields, filterType }
+    }
+  }
+
+  const entity = candidates[0]
+  const present = (entity.fields || []).map(f => f.name)
+  const missing = requiredFields.filter(name => !present.includes(name))
+  throw new Error(
+    `子图实体 ${entity.name} 缺少事件字段: ${missing.join(', ')}。现有字段: ${present.join(', ')}`
+  )
+}
+
+// 每个子图地址 + 事件只做一次内省，并发调用共享同一个请求
+const mappingCache = new Map<string, Promise<EventEntityMapping>>()
+
+export function getEventEntityMapping(
+  eventName: string,
+  requiredFields: string[],
+  url: string = GRAPH_URL
+): Promise<EventEntityMapping> {
+  const cacheKey = `${url}#${eventName}`
+  let cached = mappingCache.get(cacheKey)
+  if (!cached) {
+    cached = request<IntrospectionResult>(url, INTROSPECTION_QUERY)
+      .catch((error: unknown) => {
+        throw new Error('子图内省查询失败: ' + (error instanceof Error ? error.message : '未知错误'))
+      })
+      .then(result => resolveMapping(result, eventName, requiredFields))
+    // 失败的结果不缓存，便于重试
+    cached.catch(() => mappingCache.delete(cacheKey))
+    mappingCache.set(cacheKey, cached)
+  }
+  return cached
+}
+
+// 根据映射选出查询字段，只请求实体上真实存在的字段
+export function selectEntityFields(mapping: EventEntityMapping, wanted: string[]): string[] {
+  return wanted.filter(name => name in mapping.fields)
+}
+
+export function getOrderField(mapping: EventEntityMapping): string {
+  if ('blockTimestamp' in mapping.fields) return 'blockTimestamp'
+  if ('blockNumber' in mapping.fields) return 'blockNumber'
+  return 'id'
+}
+
+export interface SubgraphMeta {
+  blockNumber: number
+  hasIndexingErrors: boolean
+}
+
+const META_QUERY = gql`
+  query SubgraphMeta {
+    _meta {
+      block {
+        number
+      }
+      hasIndexingErrors
+    }
+  }
+`
+
+// 查询子图已索引到的区块，用于和链上最新区块比较
+export async function fetchSubgraphMeta(url: string = GRAPH_URL): Promise<SubgraphMeta> {
+  const data = await request<{ _meta: { block: { number: number }; hasIndexingErrors: boolean } }>(
+    url,
+    META_QUERY
+  )
+  return {
+    blockNumber: data._meta.block.number,
+    hasIndexingErrors: data._meta.hasIndexingErrors
+  }
+}
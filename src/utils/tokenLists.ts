@@ -0,0 +1,165 @@
+// tokenlists.org 代币列表：按 https://uniswap.org/tokenlist.schema.json 的规则校验，并按网络合并
+
+export interface TokenListToken {
+  chainId: number
+  address: string
+  name: string
+  symbol: string
+  decimals: number
+  logoURI?: string
+  tags?: string[]
+}
+
+export interface TokenList {
+  name: string
+  timestamp: string
+  version: { major: number, minor: number, patch: number }
+  tokens: TokenListToken[]
+  logoURI?: string
+  keywords?: string[]
+}
+
+// 合并后的代币，附带来源列表名称
+export interface ListedToken extends Omit<TokenListToken, 'chainId'> {
+  // 十六进制 chainId，与应用中的网络配置一致
+  chainId: string
+  listName: string
+}
+
+const MAX_TOKENS = 10000
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/
+// 与 schema 一致：不能以空白开头或结尾
+const TRIMMED_PATTERN = /^[^\s](.*[^\s])?$/
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function checkString(
+  errors: string[],
+  path: string,
+  value: unknown,
+  { min, max, pattern }: { min: number, max: number, pattern?: RegExp }
+) {
+  if (typeof value !== 'string') {
+    errors.push(`${path} 必须是字符串`)
+  } else if (value.length < min || value.length > max) {
+    errors.push(`${path} 长度必须在 ${min}-${max} 之间`)
+  } else if (pattern && value.length > 0 && !pattern.test(value)) {
+    errors.push(`${path} 格式不正确`)
+  }
+}
+
+function checkUri(errors: string[], path: string, value: unknown) {
+  if (value === undefined) return
+  if (typeof value !== 'string' || !/^(https?|ipfs|ipns|data):/.test(value)) {
+    errors.push(`${path} 必须是 http(s)、ipfs、ipns 或 data URI`)
+  }
+}
+
+function checkToken(errors: string[], path: string, token: unknown) {
+  if (!isRecord(token)) {
+    errors.push(`${path} 必须是对象`)
+    return
+  }
+  if (!isNonNegativeInteger(token.chainId) || token.chainId < 1) {
+    errors.push(`${path}.chainId 必须是正整数`)
+  }
+  if (typeof token.address !== 'string' || !ADDRESS_PATTERN.test(token.address)) {
+    errors.push(`${path}.address 不是有效地址`)
+  }
+  checkString(errors, `${path}.name`, token.name, { min: 0, max: 60, pattern: TRIMMED_PATTERN })
+  checkString(errors, `${path}.symbol`, token.symbol, { min: 0, max: 20, pattern: /^\S+$/ })
+  if (!isNonNegativeInteger(token.decimals) || token.decimals > 255) {
+    errors.push(`${path}.decimals 必须是 0-255 的整数`)
+  }
+  checkUri(errors, `${path}.logoURI`, token.logoURI)
+  if (token.tags !== undefined && (!Array.isArray(token.tags) || token.tags.some(tag => typeof tag !== 'string'))) {
+    errors.push(`${path}.tags 必须是字符串数组`)
+  }
+}
+
+// 校验代币列表，返回所有错误；没有错误时可以安全地按 TokenList 使用
+export function validateTokenList(value: unknown): string[] {
+  const errors: string[] = []
+  if (!isRecord(value)) {
+    return ['代币列表必须是 JSON 对象']
+  }
+
+  checkString(errors, 'name', value.name, { min: 1, max: 30, pattern: TRIMMED_PATTERN })
+  if (typeof value.timestamp !== 'string' || isNaN(Date.parse(value.timestamp))) {
+    errors.push('timestamp 必须是 ISO 8601 时间')
+  }
+  const version = value.version
+  if (!isRecord(version) || !['major', 'minor', 'patch'].every(key => isNonNegativeInteger(version[key]))) {
+    errors.push('version 必须包含非负整数 major、minor、patch')
+  }
+  checkUri(errors, 'logoURI', value.logoURI)
+
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0) {
+    errors.push('tokens 必须是非空数组')
+    return errors
+  }
+  if (value.tokens.length > MAX_TOKENS) {
+    errors.push(`tokens 最多 ${MAX_TOKENS} 个`)
+  }
+
+  const seen = new Set<string>()
+  value.tokens.forEach((token: unknown, index) => {
+    checkToken(errors, `tokens[${index}]`, token)
+    if (isRecord(token) && typeof token.address === 'string') {
+      const key = `${token.chainId}:${token.address.toLowerCase()}`
+      if (seen.has(key)) {
+        errors.push(`tokens[${index}] 与前面的代币重复（同一网络同一地址）`)
+      }
+      seen.add(key)
+    }
+  })
+  return errors
+}
+
+// 解析并校验上传的 JSON，失败时抛出包含前几条错误的异常
+export function parseTokenList(text: string): TokenList {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+  const errors = validateTokenList(value)
+  if (errors.length > 0) {
+    throw new Error(`代币列表校验失败:\n${errors.slice(0, 5).join('\n')}${errors.length > 5 ? `\n...共 ${errors.length} 处错误` : ''}`)
+  }
+  return value as TokenList
+}
+
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`
+}
+
+// 按网络合并多个列表；同一网络上地址或符号重复时保留排在前面的列表中的代币
+// （交易记录按符号区分代币，同一网络上的符号必须唯一）
+export function mergeTokenLists(lists: TokenList[]): Record<string, ListedToken[]> {
+  const merged: Record<string, ListedToken[]> = {}
+  for (const list of lists) {
+    for (const token of list.tokens) {
+      const chainId = toHexChainId(token.chainId)
+      const tokens = (merged[chainId] ??= [])
+      const duplicate = tokens.find(existing =>
+        existing.address.toLowerCase() === token.address.toLowerCase() || existing.symbol === token.symbol
+      )
+      if (duplicate) {
+        if (duplicate.address.toLowerCase() !== token.address.toLowerCase()) {
+          console.warn(`代币列表 ${list.name} 中的 ${token.symbol} 与 ${duplicate.listName} 中的同名代币冲突，已忽略`)
+        }
+        continue
+      }
+      tokens.push({ ...token, chainId, listName: list.name })
+    }
+  }
+  return merged
+}